@@ -1,7 +1,10 @@
-import React from "react"
-import { fireEvent, render, waitFor } from "@testing-library/react-native"
+import React, { useState } from "react"
+import { act, fireEvent, render, waitFor } from "@testing-library/react-native"
 import { CurrencyInput } from "../src/components/CurrencyInput"
+import { CurrencyText } from "../src/components/CurrencyText"
 import { formatCurrency } from "../src/core/currency"
+import { defineCurrency } from "../src/core/currencyRegistry"
+import { createStaticRateProvider } from "../src/core/exchangeRates"
 
 describe("CurrencyInput", () => {
   it("formats currency text and emits callbacks", async () => {
@@ -89,6 +92,236 @@ describe("CurrencyInput", () => {
     expect(onChangeValue).toHaveBeenLastCalledWith(null)
   })
 
+  it("translates validation errors and reports them all", async () => {
+    const onValidationError = jest.fn()
+    const onValidationErrors = jest.fn()
+
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="USD"
+        value={null}
+        maxDigits={2}
+        validate={(value) => (value === 12 ? "Too round" : null)}
+        messages={{ maxDigits: "At most {maxDigits} digits" }}
+        onChangeValue={jest.fn()}
+        onValidationError={onValidationError}
+        onValidationErrors={onValidationErrors}
+        testID="currency-input"
+      />
+    )
+
+    const input = getByTestId("currency-input")
+    fireEvent.changeText(input, "12")
+    fireEvent.changeText(input, "123456")
+
+    await waitFor(() => expect(onValidationError).toHaveBeenLastCalledWith("Too round"))
+    expect(onValidationErrors).toHaveBeenLastCalledWith([
+      { code: "maxDigits", params: { maxDigits: 2 }, message: "At most 2 digits" },
+      { code: "custom", params: { message: "Too round" }, message: "Too round" },
+    ])
+  })
+
+  it("re-validates the current value when validate changes", async () => {
+    const onValidationError = jest.fn()
+    const field = (limit: number) => (
+      <CurrencyInput
+        currency="USD"
+        value={50}
+        validate={(value) => (value != null && value > limit ? `Above ${limit}` : null)}
+        onChangeValue={jest.fn()}
+        onValidationError={onValidationError}
+        testID="currency-input"
+      />
+    )
+
+    const { getByTestId, rerender } = render(field(100))
+    expect(onValidationError).toHaveBeenLastCalledWith(null)
+
+    rerender(field(10))
+    await waitFor(() => expect(onValidationError).toHaveBeenLastCalledWith("Above 10"))
+    expect(getByTestId("currency-input").props.value).toBe("$50.00")
+  })
+
+  it("re-translates the shown error when messages change", async () => {
+    const onValidationErrors = jest.fn()
+    const field = (messages: { maxDigits: string }) => (
+      <CurrencyInput
+        currency="USD"
+        value={null}
+        maxDigits={2}
+        messages={messages}
+        showErrorText
+        onChangeValue={jest.fn()}
+        onValidationErrors={onValidationErrors}
+        testID="currency-input"
+      />
+    )
+
+    const { getByTestId, getByText, queryByText, rerender } = render(
+      field({ maxDigits: "At most {maxDigits} digits" })
+    )
+    fireEvent.changeText(getByTestId("currency-input"), "123")
+    await waitFor(() => getByText("At most 2 digits"))
+    const { value, selection } = getByTestId("currency-input").props
+
+    rerender(field({ maxDigits: "Höchstens {maxDigits} Ziffern" }))
+    await waitFor(() => getByText("Höchstens 2 Ziffern"))
+    expect(queryByText("At most 2 digits")).toBeNull()
+    expect(getByTestId("currency-input").props.value).toBe(value)
+    expect(getByTestId("currency-input").props.selection).toEqual(selection)
+    expect(onValidationErrors).toHaveBeenLastCalledWith([
+      { code: "maxDigits", params: { maxDigits: 2 }, message: "Höchstens 2 Ziffern" },
+    ])
+  })
+
+  it("debounces async validation and drops stale results", async () => {
+    jest.useFakeTimers()
+    const calls: Array<{
+      value: unknown
+      signal: AbortSignal
+      resolve: (error: string | null) => void
+    }> = []
+    const validateAsync = jest.fn(
+      (value: number | null, { signal }: { signal: AbortSignal }) =>
+        new Promise<string | null>((resolve) => calls.push({ value, signal, resolve }))
+    )
+    const onValidationError = jest.fn()
+
+    try {
+      const { getByTestId, queryByTestId } = render(
+        <CurrencyInput
+          currency="USD"
+          value={null}
+          onChangeValue={jest.fn()}
+          validateAsync={validateAsync}
+          validateDebounce={500}
+          onValidationError={onValidationError}
+          testID="currency-input"
+        />
+      )
+      const input = getByTestId("currency-input")
+      expect(queryByTestId("currency-input-pending")).toBeNull()
+
+      fireEvent.changeText(input, "12")
+      expect(getByTestId("currency-input-pending")).toBeTruthy()
+      act(() => jest.advanceTimersByTime(300))
+      fireEvent.changeText(input, "$125")
+      act(() => jest.advanceTimersByTime(500))
+      expect(validateAsync).toHaveBeenCalledTimes(1)
+      expect(calls[0].value).toBe(125)
+
+      fireEvent.changeText(input, "$15")
+      expect(calls[0].signal.aborted).toBe(true)
+      act(() => jest.advanceTimersByTime(500))
+      expect(calls[1].value).toBe(15)
+
+      await act(async () => calls[0].resolve("Over your limit"))
+      expect(onValidationError).not.toHaveBeenCalledWith("Over your limit")
+      expect(getByTestId("currency-input-pending")).toBeTruthy()
+
+      await act(async () => calls[1].resolve("Insufficient balance"))
+      expect(onValidationError).toHaveBeenLastCalledWith("Insufficient balance")
+      expect(queryByTestId("currency-input-pending")).toBeNull()
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it("does not show a rejected async validation as the field error", async () => {
+    const onValidationError = jest.fn()
+    const { getByTestId, queryByTestId } = render(
+      <CurrencyInput
+        currency="USD"
+        value={null}
+        onChangeValue={jest.fn()}
+        validateAsync={() => Promise.reject(new Error("Network request failed"))}
+        validateDebounce={0}
+        onValidationError={onValidationError}
+        showErrorText
+        testID="currency-input"
+      />
+    )
+
+    fireEvent.changeText(getByTestId("currency-input"), "12")
+    await waitFor(() => expect(queryByTestId("currency-input-pending")).toBeNull())
+    expect(onValidationError).not.toHaveBeenCalledWith("Network request failed")
+    expect(onValidationError).toHaveBeenLastCalledWith(null)
+  })
+
+  it("formats, clamps and commits on blur when formatOn is blur", async () => {
+    const onChangeValue = jest.fn()
+    const onCommit = jest.fn()
+
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="USD"
+        locale="en-US"
+        value={1234.5}
+        minimumValue={100}
+        formatOn="blur"
+        onChangeValue={onChangeValue}
+        onCommit={onCommit}
+        testID="currency-input"
+      />
+    )
+
+    const input = getByTestId("currency-input")
+    expect(input.props.value).toBe("$1,234.50")
+
+    fireEvent(input, "focus")
+    expect(getByTestId("currency-input").props.value).toBe("1234.5")
+
+    fireEvent.changeText(input, "1")
+    fireEvent.changeText(input, "15")
+    fireEvent.changeText(input, "$150")
+    expect(getByTestId("currency-input").props.value).toBe("150")
+    expect(onChangeValue).not.toHaveBeenCalledWith(100)
+
+    fireEvent(input, "blur")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(150))
+    expect(getByTestId("currency-input").props.value).toBe("$150.00")
+    expect(onCommit).toHaveBeenCalledTimes(1)
+    expect(onCommit).toHaveBeenLastCalledWith(150)
+
+    fireEvent(input, "focus")
+    fireEvent.changeText(input, "5")
+    fireEvent(input, "submitEditing")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(100))
+    expect(getByTestId("currency-input").props.value).toBe("$100.00")
+    expect(onCommit).toHaveBeenLastCalledWith(100)
+
+    fireEvent(input, "blur")
+    expect(onCommit).toHaveBeenCalledTimes(2)
+  })
+
+  it("does not clamp to minimumValue while typing when formatOn is blur", async () => {
+    const onChangeValue = jest.fn()
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="USD"
+        locale="en-US"
+        value={null}
+        minimumValue={100}
+        formatOn="blur"
+        onChangeValue={onChangeValue}
+        testID="currency-input"
+      />
+    )
+
+    const input = getByTestId("currency-input")
+    fireEvent(input, "focus")
+    for (const typed of ["1", "15", "150"]) {
+      fireEvent.changeText(input, typed)
+      expect(getByTestId("currency-input").props.value).toBe(typed)
+    }
+    expect(onChangeValue).not.toHaveBeenCalledWith(expect.any(Number))
+
+    fireEvent(input, "blur")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(150))
+    expect(onChangeValue).not.toHaveBeenCalledWith(100)
+    expect(getByTestId("currency-input").props.value).toBe("$150.00")
+  })
+
   it("respects mask='none' and clears to null", async () => {
     const onChangeValue = jest.fn()
     const onChangeText = jest.fn()
@@ -169,4 +402,507 @@ describe("CurrencyInput", () => {
     await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(0))
     expect(onChangeText).toHaveBeenLastCalledWith("$0.")
   })
+
+  it("takes and emits integer minor units when valueType is minor", async () => {
+    const onChangeValue = jest.fn()
+    const onChangeText = jest.fn()
+
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="USD"
+        locale="en-US"
+        value={1999}
+        valueType="minor"
+        maximumValue={500000}
+        onChangeValue={onChangeValue}
+        onChangeText={onChangeText}
+        testID="currency-input"
+      />
+    )
+
+    await waitFor(() => expect(onChangeText).toHaveBeenLastCalledWith("$19.99"))
+
+    const input = getByTestId("currency-input")
+    fireEvent.changeText(input, "1,234.56")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(123456))
+
+    fireEvent.changeText(input, "0.07")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(7))
+
+    fireEvent.changeText(input, "9999")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(500000))
+    expect(onChangeText).toHaveBeenLastCalledWith("$5,000")
+  })
+
+  it("emits decimal strings beyond float precision when valueType is string", async () => {
+    const onChangeValue = jest.fn()
+    const onChangeText = jest.fn()
+
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="USD"
+        locale="en-US"
+        value={null}
+        valueType="string"
+        onChangeValue={onChangeValue}
+        onChangeText={onChangeText}
+        testID="currency-input"
+      />
+    )
+
+    fireEvent.changeText(getByTestId("currency-input"), "123456789012345678.99")
+    await waitFor(() =>
+      expect(onChangeValue).toHaveBeenLastCalledWith("123456789012345678.99")
+    )
+    expect(onChangeText).toHaveBeenLastCalledWith("$123,456,789,012,345,678.99")
+  })
+
+  it("keeps the caret next to the edited digit", async () => {
+    const onChangeValue = jest.fn()
+
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="USD"
+        locale="en-US"
+        value={12345.67}
+        onChangeValue={onChangeValue}
+        testID="currency-input"
+      />
+    )
+
+    const input = getByTestId("currency-input")
+    expect(input.props.selection).toEqual({ start: 10, end: 10 })
+
+    fireEvent(input, "selectionChange", { nativeEvent: { selection: { start: 2, end: 2 } } })
+    fireEvent.changeText(input, "$192,345.67")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(192345.67))
+    expect(getByTestId("currency-input").props.value).toBe("$192,345.67")
+    expect(getByTestId("currency-input").props.selection).toEqual({ start: 3, end: 3 })
+
+    fireEvent(input, "selectionChange", { nativeEvent: { selection: { start: 2, end: 2 } } })
+    fireEvent.changeText(input, "$92,345.67")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(92345.67))
+    expect(getByTestId("currency-input").props.selection).toEqual({ start: 1, end: 1 })
+
+    fireEvent(input, "selectionChange", { nativeEvent: { selection: { start: 4, end: 4 } } })
+    fireEvent.changeText(input, "$92345.67")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(9345.67))
+    expect(getByTestId("currency-input").props.value).toBe("$9,345.67")
+    expect(getByTestId("currency-input").props.selection).toEqual({ start: 2, end: 2 })
+  })
+
+  it("keeps the caret when a controlled parent passes an inline validate", async () => {
+    function Parent() {
+      const [value, setValue] = useState<number | null>(12345.67)
+      return (
+        <CurrencyInput
+          currency="USD"
+          locale="en-US"
+          value={value}
+          onChangeValue={setValue}
+          validate={(next) => (next != null && next > 1000000 ? "Too large" : null)}
+          messages={{ max: "At most {max}" }}
+          testID="currency-input"
+        />
+      )
+    }
+
+    const { getByTestId } = render(<Parent />)
+    const input = getByTestId("currency-input")
+
+    fireEvent(input, "selectionChange", { nativeEvent: { selection: { start: 2, end: 2 } } })
+    fireEvent.changeText(input, "$192,345.67")
+    await waitFor(() => expect(getByTestId("currency-input").props.value).toBe("$192,345.67"))
+    expect(getByTestId("currency-input").props.selection).toEqual({ start: 3, end: 3 })
+  })
+
+  it("shifts digits in from the right in cash register mode", async () => {
+    const onChangeValue = jest.fn()
+
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="USD"
+        locale="en-US"
+        value={null}
+        entryMode="cashRegister"
+        minimumFractionDigits={0}
+        onChangeValue={onChangeValue}
+        testID="currency-input"
+      />
+    )
+
+    const input = getByTestId("currency-input")
+    fireEvent.changeText(input, "1")
+    await waitFor(() => expect(getByTestId("currency-input").props.value).toBe("$0.01"))
+
+    fireEvent.changeText(input, "$0.012")
+    await waitFor(() => expect(getByTestId("currency-input").props.value).toBe("$0.12"))
+
+    fireEvent.changeText(input, "$0.123")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(1.23))
+    expect(getByTestId("currency-input").props.value).toBe("$1.23")
+
+    fireEvent.changeText(input, "$1.2")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(0.12))
+
+    fireEvent.changeText(input, "$0.1")
+    fireEvent.changeText(input, "$0.0")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(null))
+    expect(getByTestId("currency-input").props.value).toBe("")
+  })
+
+  it("reads pasted amounts written in other formats", async () => {
+    const onChangeValue = jest.fn()
+
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="USD"
+        locale="en-US"
+        value={null}
+        allowNegative
+        onChangeValue={onChangeValue}
+        testID="currency-input"
+      />
+    )
+
+    const input = getByTestId("currency-input")
+    fireEvent.changeText(input, "1.234,56 €")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(1234.56))
+    expect(getByTestId("currency-input").props.value).toBe("$1,234.56")
+    expect(getByTestId("currency-input").props.selection).toEqual({ start: 9, end: 9 })
+
+    fireEvent(input, "selectionChange", { nativeEvent: { selection: { start: 0, end: 9 } } })
+    fireEvent.changeText(input, "(1,234.56)")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(-1234.56))
+    expect(getByTestId("currency-input").props.value).toBe("-$1,234.56")
+  })
+
+  it("uses the currency's minor unit exponent by default", async () => {
+    const onChangeValue = jest.fn()
+
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="KWD"
+        locale="en-US"
+        value={null}
+        onChangeValue={onChangeValue}
+        testID="currency-input"
+      />
+    )
+
+    fireEvent.changeText(getByTestId("currency-input"), "12.3456")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(12.345))
+    expect(getByTestId("currency-input").props.value).toBe("KWD\u00a012.345")
+  })
+
+  it("edits custom currencies", async () => {
+    defineCurrency({
+      code: "SAT",
+      symbol: "sats",
+      fractionDigits: 0,
+      symbolPosition: "suffix",
+      spacing: true,
+    })
+    const onChangeValue = jest.fn()
+
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="SAT"
+        locale="en-US"
+        value={null}
+        onChangeValue={onChangeValue}
+        testID="currency-input"
+      />
+    )
+
+    fireEvent.changeText(getByTestId("currency-input"), "12345")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(12345))
+    expect(getByTestId("currency-input").props.value).toBe("12,345\u00a0sats")
+  })
+
+  it("edits amounts shown with a currency name after the number", async () => {
+    const onChangeValue = jest.fn()
+
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="USD"
+        locale="de-DE"
+        currencyDisplay="name"
+        value={12}
+        allowNegative
+        onChangeValue={onChangeValue}
+        testID="currency-input"
+      />
+    )
+
+    const input = getByTestId("currency-input")
+    expect(input.props.value).toBe("12,00 US-Dollar")
+
+    fireEvent.changeText(input, "12,005 US-Dollar")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(12))
+
+    fireEvent.changeText(input, "123 US-Dollar")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(123))
+    expect(getByTestId("currency-input").props.value).toBe("123 US-Dollar")
+
+    fireEvent.changeText(input, "123, US-Dollar")
+    await waitFor(() => expect(getByTestId("currency-input").props.value).toBe("123, US-Dollar"))
+
+    fireEvent.changeText(input, "-123, US-Dollar")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(-123))
+  })
+
+  it("ignores separators inside the currency symbol", async () => {
+    const onChangeValue = jest.fn()
+
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="XCG"
+        locale="en-US"
+        value={null}
+        onChangeValue={onChangeValue}
+        testID="currency-input"
+      />
+    )
+
+    const input = getByTestId("currency-input")
+    fireEvent.changeText(input, "5")
+    await waitFor(() => expect(getByTestId("currency-input").props.value).toBe("Cg.\u00a05"))
+
+    fireEvent.changeText(input, "Cg.\u00a05.2")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(5.2))
+    expect(getByTestId("currency-input").props.value).toBe("Cg.\u00a05.2")
+  })
+
+  it("keeps accounting negatives negative while editing", async () => {
+    const onChangeValue = jest.fn()
+
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="USD"
+        locale="en-US"
+        value={-12}
+        allowNegative
+        currencySign="accounting"
+        onChangeValue={onChangeValue}
+        testID="currency-input"
+      />
+    )
+
+    const input = getByTestId("currency-input")
+    expect(input.props.value).toBe("($12.00)")
+
+    fireEvent.changeText(input, "($12.005)")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(-12))
+
+    fireEvent.changeText(input, "($123)")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(-123))
+    expect(getByTestId("currency-input").props.value).toBe("($123)")
+
+    fireEvent.changeText(input, "(-$123)")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(123))
+    expect(getByTestId("currency-input").props.value).toBe("$123")
+  })
+
+  it("applies the negative template without a currency mask", async () => {
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="USD"
+        locale="en-US"
+        value={null}
+        mask="none"
+        allowNegative
+        negativeTemplate="{value} DR"
+        onChangeValue={() => {}}
+        testID="currency-input"
+      />
+    )
+
+    const input = getByTestId("currency-input")
+    fireEvent.changeText(input, "-12.5")
+    await waitFor(() => expect(getByTestId("currency-input").props.value).toBe("12.5 DR"))
+
+    fireEvent.changeText(input, "12.50 DR")
+    await waitFor(() => expect(getByTestId("currency-input").props.value).toBe("12.50 DR"))
+  })
+
+  it("keeps the amount when the currency prop changes", async () => {
+    const onChangeValue = jest.fn()
+    const { getByTestId, rerender } = render(
+      <CurrencyInput
+        currency="USD"
+        locale="en-US"
+        value={1234}
+        valueType="minor"
+        onChangeValue={onChangeValue}
+        testID="currency-input"
+      />
+    )
+
+    await waitFor(() => expect(getByTestId("currency-input").props.value).toBe("$12.34"))
+
+    rerender(
+      <CurrencyInput
+        currency="KWD"
+        locale="en-US"
+        value={1234}
+        valueType="minor"
+        onChangeValue={onChangeValue}
+        testID="currency-input"
+      />
+    )
+
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(12340))
+    expect(getByTestId("currency-input").props.value).toBe("KWD\u00a012.340")
+  })
+
+  it("shows the converted amount from an async rate provider", async () => {
+    const rateProvider = {
+      getRate: jest.fn(async () => ({ rate: 0.9183, asOf: Date.now() })),
+    }
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="USD"
+        locale="en-US"
+        value={null}
+        convertTo="EUR"
+        rateProvider={rateProvider}
+        onChangeValue={() => {}}
+        testID="currency-input"
+      />
+    )
+
+    fireEvent.changeText(getByTestId("currency-input"), "12")
+    await waitFor(() =>
+      expect(getByTestId("currency-input-converted").props.children).toBe("≈ €11.02")
+    )
+    expect(rateProvider.getRate).toHaveBeenCalledTimes(1)
+  })
+
+  it("converts minor units at an overridden fractionDigits", async () => {
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="USD"
+        locale="en-US"
+        valueType="minor"
+        fractionDigits={3}
+        value={12345}
+        convertTo="EUR"
+        rateProvider={createStaticRateProvider({ USD: { EUR: 1 } })}
+        onChangeValue={() => {}}
+        testID="currency-input"
+      />
+    )
+
+    expect(getByTestId("currency-input").props.value).toBe("$12.345")
+    await waitFor(() =>
+      expect(getByTestId("currency-input-converted").props.children).toBe("≈ €12.35")
+    )
+  })
+})
+
+describe("CurrencyText", () => {
+  it("renders custom currencies next to fiat ones", () => {
+    defineCurrency({ code: "USDT", symbol: "USDT", fractionDigits: 2, spacing: true })
+
+    const { getByText } = render(
+      <>
+        <CurrencyText currency="USDT" locale="en-US" value={-12.5} />
+        <CurrencyText currency="USD" locale="en-US" value={-12.5} />
+      </>
+    )
+
+    expect(getByText("-USDT\u00a012.50")).toBeTruthy()
+    expect(getByText("-$12.50")).toBeTruthy()
+  })
+
+  it("renders accounting negatives", () => {
+    const { getByText } = render(
+      <CurrencyText currency="USD" locale="en-US" value={-1234} currencySign="accounting" />
+    )
+
+    expect(getByText("($1,234.00)")).toBeTruthy()
+  })
+
+  it("shows compact amounts with the full value as accessibility label", () => {
+    const { getByText } = render(
+      <>
+        <CurrencyText
+          currency="USD"
+          locale="en-US"
+          value={1234567}
+          notation="compact"
+          fullValueAccessibilityLabel
+        />
+        <CurrencyText
+          currency="USD"
+          locale="en-US"
+          value={12.5}
+          notation="compact"
+          compactThreshold={1000}
+          fullValueAccessibilityLabel
+        />
+      </>
+    )
+
+    expect(getByText("$1.2M").props.accessibilityLabel).toBe("$1,234,567.00")
+    expect(getByText("$12.50").props.accessibilityLabel).toBeUndefined()
+  })
+
+  it("shows ISO codes with currencyDisplay", () => {
+    const { getByText } = render(
+      <CurrencyText currency="EUR" locale="en-US" currencyDisplay="code" value={12} />
+    )
+
+    expect(getByText("EUR\u00a012.00")).toBeTruthy()
+  })
+
+  it("formats bigint minor units", () => {
+    const { getByText } = render(
+      <CurrencyText
+        currency="USD"
+        locale="en-US"
+        valueType="bigint"
+        value={BigInt("1234567890123456789")}
+      />
+    )
+
+    expect(getByText("$12,345,678,901,234,567.89")).toBeTruthy()
+  })
+
+  it("appends a converted amount rounded for the target currency", async () => {
+    const rateProvider = createStaticRateProvider({ USD: { JPY: 151.37 } })
+    const { getByText } = render(
+      <CurrencyText
+        value={12.34}
+        currency="USD"
+        locale="en-US"
+        convertTo="JPY"
+        rateProvider={rateProvider}
+      />
+    )
+
+    await waitFor(() => expect(getByText("≈ ¥1,868", { exact: false })).toBeTruthy())
+  })
+
+  it("dates stale rates", async () => {
+    const rateProvider = createStaticRateProvider(
+      { USD: { EUR: 0.9 } },
+      { asOf: new Date("2026-01-02T12:00:00Z") }
+    )
+    const { getByText } = render(
+      <CurrencyText
+        value={10}
+        currency="USD"
+        locale="en-US"
+        convertTo="EUR"
+        rateProvider={rateProvider}
+        staleAfter={24 * 60 * 60 * 1000}
+      />
+    )
+
+    await waitFor(() =>
+      expect(getByText("≈ €9.00 (rates as of Jan 2, 2026)", { exact: false })).toBeTruthy()
+    )
+  })
 })
@@ -0,0 +1,260 @@
+import React, { useState } from "react"
+import { act, fireEvent, render, waitFor } from "@testing-library/react-native"
+import { MaskedInput } from "../src/components/MaskedInput"
+import { Formatter } from "../src/core/Formatter.types"
+import { Text } from "react-native"
+import { detectCardBrand } from "../src/formatters/card/cardBrands"
+import { createCardNumberFormatter } from "../src/formatters/card/createCardNumberFormatter"
+import { createDateFormatter } from "../src/formatters/date/createDateFormatter"
+import { createPatternFormatter } from "../src/formatters/pattern/createPatternFormatter"
+import { createPhoneFormatter } from "../src/formatters/phone/createPhoneFormatter"
+
+const phoneFormatter = createPatternFormatter("(999) 999-9999")
+
+function ControlledMaskedInput(props: {
+  formatter?: Formatter<string>
+  renderAccessory?: (state: { rawValue: string }) => React.ReactNode
+  onChangeValue: (value: string | null) => void
+  onValidationError?: (error: string | null) => void
+}) {
+  const [value, setValue] = useState<string | null>(null)
+
+  return (
+    <MaskedInput
+      testID="masked-input"
+      value={value}
+      formatter={props.formatter ?? phoneFormatter}
+      onValidationError={props.onValidationError}
+      renderAccessory={props.renderAccessory}
+      onChangeValue={(next) => {
+        props.onChangeValue(next)
+        setValue(next)
+      }}
+    />
+  )
+}
+
+describe("MaskedInput", () => {
+  it("formats with a pattern formatter while staying controlled", async () => {
+    const onChangeValue = jest.fn()
+    const onValidationError = jest.fn()
+    const { getByTestId } = render(
+      <ControlledMaskedInput onChangeValue={onChangeValue} onValidationError={onValidationError} />
+    )
+
+    const input = getByTestId("masked-input")
+    fireEvent.changeText(input, "5551")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith("5551"))
+    expect(getByTestId("masked-input").props.value).toBe("(555) 1")
+    expect(onValidationError).toHaveBeenLastCalledWith("Value is incomplete")
+
+    fireEvent.changeText(input, "(555) 123-4567")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith("5551234567"))
+    expect(getByTestId("masked-input").props.value).toBe("(555) 123-4567")
+    expect(onValidationError).toHaveBeenLastCalledWith(null)
+  })
+
+  it("shows text returned by parse when it differs from the formatted value", async () => {
+    const onChangeValue = jest.fn()
+    const formatter = createPhoneFormatter({ country: "US" })
+    const { getByTestId } = render(
+      <ControlledMaskedInput formatter={formatter} onChangeValue={onChangeValue} />
+    )
+
+    const input = getByTestId("masked-input")
+    fireEvent.changeText(input, "+")
+    expect(getByTestId("masked-input").props.value).toBe("+")
+
+    fireEvent.changeText(input, "+447911123456")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith("+447911123456"))
+    expect(getByTestId("masked-input").props.value).toBe("+44 7911 123456")
+  })
+
+  it("works with non-string values and keeps partial text while the value is null", async () => {
+    const onChangeValue = jest.fn()
+    const formatter = createDateFormatter({ locale: "en-US" })
+
+    function DateField() {
+      const [value, setValue] = useState<Date | null>(null)
+      return (
+        <MaskedInput<Date>
+          testID="date-input"
+          value={value}
+          formatter={formatter}
+          onChangeValue={(next) => {
+            onChangeValue(next)
+            setValue(next)
+          }}
+        />
+      )
+    }
+
+    const { getByTestId } = render(<DateField />)
+    const input = getByTestId("date-input")
+
+    fireEvent.changeText(input, "122")
+    expect(getByTestId("date-input").props.value).toBe("12/2")
+    expect(onChangeValue).toHaveBeenLastCalledWith(null)
+
+    fireEvent.changeText(input, "12/25/2024")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(new Date(2024, 11, 25)))
+    expect(getByTestId("date-input").props.value).toBe("12/25/2024")
+  })
+
+  it("lets an international phone number be typed one character at a time", async () => {
+    const onChangeValue = jest.fn()
+    const formatter = createPhoneFormatter({ country: "GB" })
+    const { getByTestId } = render(
+      <ControlledMaskedInput formatter={formatter} onChangeValue={onChangeValue} />
+    )
+
+    const shown: string[] = []
+    for (const char of "+447911123456") {
+      fireEvent.changeText(
+        getByTestId("masked-input"),
+        `${getByTestId("masked-input").props.value}${char}`
+      )
+      shown.push(getByTestId("masked-input").props.value)
+    }
+
+    expect(shown.slice(0, 5)).toEqual(["+", "+4", "+44", "+44 7", "+44 79"])
+
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith("+447911123456"))
+    expect(getByTestId("masked-input").props.value).toBe("+44 7911 123456")
+  })
+
+  it("renders an accessory from the current raw value", async () => {
+    const onChangeValue = jest.fn()
+    const { getByTestId, getByText } = render(
+      <ControlledMaskedInput
+        formatter={createCardNumberFormatter()}
+        onChangeValue={onChangeValue}
+        renderAccessory={({ rawValue }) => (
+          <Text>{detectCardBrand(rawValue)?.name ?? "Unknown"}</Text>
+        )}
+      />
+    )
+
+    getByText("Unknown")
+    fireEvent.changeText(getByTestId("masked-input"), "3782")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith("3782"))
+    getByText("American Express")
+  })
+
+  it("keeps the same input when the accessory appears", async () => {
+    const onChangeValue = jest.fn()
+    const { getByTestId, getByText } = render(
+      <ControlledMaskedInput
+        formatter={createCardNumberFormatter()}
+        onChangeValue={onChangeValue}
+        renderAccessory={({ rawValue }) => {
+          const brand = detectCardBrand(rawValue)
+          return brand ? <Text>{brand.name}</Text> : null
+        }}
+      />
+    )
+
+    const input = getByTestId("masked-input")
+    fireEvent.changeText(input, "4")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith("4"))
+    getByText("Visa")
+    expect(getByTestId("masked-input")).toBe(input)
+  })
+
+  it("keeps the caret in place when editing inside the mask", async () => {
+    const onChangeValue = jest.fn()
+    const { getByTestId } = render(<ControlledMaskedInput onChangeValue={onChangeValue} />)
+
+    const input = getByTestId("masked-input")
+    fireEvent.changeText(input, "5551234567")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith("5551234567"))
+    expect(getByTestId("masked-input").props.selection).toEqual({ start: 14, end: 14 })
+
+    fireEvent(input, "selectionChange", { nativeEvent: { selection: { start: 6, end: 6 } } })
+    fireEvent.changeText(input, "(555)123-4567")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith("551234567"))
+    expect(getByTestId("masked-input").props.value).toBe("(551) 234-567")
+    expect(getByTestId("masked-input").props.selection).toEqual({ start: 3, end: 3 })
+  })
+
+  it("runs async validation after the debounce and shows a pending state", async () => {
+    jest.useFakeTimers()
+    let resolveCheck: (error: string | null) => void = () => {}
+    const validateAsync = jest.fn(
+      () => new Promise<string | null>((resolve) => (resolveCheck = resolve))
+    )
+    const onValidationError = jest.fn()
+
+    try {
+      const { getByTestId, queryByTestId } = render(
+        <MaskedInput
+          testID="masked-input"
+          value={null}
+          formatter={phoneFormatter}
+          onChangeValue={jest.fn()}
+          validateAsync={validateAsync}
+          validateDebounce={200}
+          onValidationError={onValidationError}
+        />
+      )
+
+      fireEvent.changeText(getByTestId("masked-input"), "5551234567")
+      expect(getByTestId("masked-input-pending")).toBeTruthy()
+      act(() => jest.advanceTimersByTime(199))
+      expect(validateAsync).not.toHaveBeenCalled()
+      act(() => jest.advanceTimersByTime(1))
+      expect(validateAsync).toHaveBeenCalledWith("5551234567", expect.anything())
+
+      await act(async () => resolveCheck("Number is already registered"))
+      expect(onValidationError).toHaveBeenLastCalledWith("Number is already registered")
+      expect(queryByTestId("masked-input-pending")).toBeNull()
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it("parses and formats on blur when formatOn is blur", async () => {
+    const onChangeValue = jest.fn()
+    const onCommit = jest.fn()
+    const { getByTestId } = render(
+      <MaskedInput
+        testID="masked-input"
+        value={null}
+        formatter={phoneFormatter}
+        formatOn="blur"
+        onChangeValue={onChangeValue}
+        onCommit={onCommit}
+      />
+    )
+
+    const input = getByTestId("masked-input")
+    fireEvent.changeText(input, "555 123 4567")
+    expect(getByTestId("masked-input").props.value).toBe("555 123 4567")
+    expect(onChangeValue).not.toHaveBeenCalledWith("5551234567")
+
+    fireEvent(input, "blur")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith("5551234567"))
+    expect(getByTestId("masked-input").props.value).toBe("(555) 123-4567")
+    expect(onCommit).toHaveBeenCalledWith("5551234567")
+  })
+
+  it("drops characters the formatter never shows from a blur mode draft", () => {
+    const { getByTestId } = render(
+      <MaskedInput
+        testID="masked-input"
+        value={null}
+        formatter={phoneFormatter}
+        formatOn="blur"
+        onChangeValue={jest.fn()}
+      />
+    )
+
+    const input = getByTestId("masked-input")
+    fireEvent.changeText(input, "(555)*123#4567")
+    expect(getByTestId("masked-input").props.value).toBe("(555)1234567")
+    expect(getByTestId("masked-input").props.selection).toEqual({ start: 12, end: 12 })
+
+    fireEvent(input, "blur")
+    expect(getByTestId("masked-input").props.value).toBe("(555) 123-4567")
+  })
+})
@@ -0,0 +1,118 @@
+import React from "react"
+import { Pressable, Text } from "react-native"
+import { fireEvent, render, waitFor } from "@testing-library/react-native"
+import { MoneyInput } from "../src/components/MoneyInput"
+
+describe("MoneyInput", () => {
+  it("re-applies fraction digits when the currency changes", async () => {
+    const onChangeValue = jest.fn()
+    const { getByTestId } = render(
+      <MoneyInput
+        locale="en-US"
+        value={{ amount: 12.34, currency: "USD" }}
+        currencies={["USD", "EUR", "JPY"]}
+        onChangeValue={onChangeValue}
+        testID="money-input"
+      />
+    )
+
+    await waitFor(() => expect(getByTestId("money-input").props.value).toBe("$12.34"))
+
+    fireEvent.press(getByTestId("money-input-currency"))
+    fireEvent.press(getByTestId("money-input-currency-EUR"))
+    await waitFor(() =>
+      expect(onChangeValue).toHaveBeenLastCalledWith({ amount: 12.34, currency: "EUR" })
+    )
+    expect(getByTestId("money-input").props.value).toBe("€12.34")
+
+    fireEvent.press(getByTestId("money-input-currency"))
+    fireEvent.press(getByTestId("money-input-currency-JPY"))
+    await waitFor(() =>
+      expect(onChangeValue).toHaveBeenLastCalledWith({ amount: 12, currency: "JPY" })
+    )
+    expect(getByTestId("money-input").props.value).toBe("¥12")
+  })
+
+  it("rescales minor-unit amounts", async () => {
+    const onChangeValue = jest.fn()
+    const { getByTestId } = render(
+      <MoneyInput
+        locale="en-US"
+        valueType="minor"
+        value={{ amount: 1234, currency: "USD" }}
+        currencies={["USD", "KWD"]}
+        onChangeValue={onChangeValue}
+        testID="money-input"
+      />
+    )
+
+    fireEvent.press(getByTestId("money-input-currency"))
+    fireEvent.press(getByTestId("money-input-currency-KWD"))
+
+    await waitFor(() =>
+      expect(onChangeValue).toHaveBeenLastCalledWith({ amount: 12340, currency: "KWD" })
+    )
+  })
+
+  it("formats and commits on blur when formatOn is blur", async () => {
+    const onChangeValue = jest.fn()
+    const onCommit = jest.fn()
+    const { getByTestId } = render(
+      <MoneyInput
+        locale="en-US"
+        value={{ amount: null, currency: "USD" }}
+        currencies={["USD", "EUR"]}
+        minimumValue={100}
+        formatOn="blur"
+        onChangeValue={onChangeValue}
+        onCommit={onCommit}
+        testID="money-input"
+      />
+    )
+
+    const input = getByTestId("money-input")
+    fireEvent(input, "focus")
+    for (const typed of ["1", "15", "150"]) {
+      fireEvent.changeText(input, typed)
+      expect(getByTestId("money-input").props.value).toBe(typed)
+    }
+    expect(onChangeValue).not.toHaveBeenCalledWith({ amount: 100, currency: "USD" })
+
+    fireEvent(input, "blur")
+    await waitFor(() =>
+      expect(onChangeValue).toHaveBeenLastCalledWith({ amount: 150, currency: "USD" })
+    )
+    expect(getByTestId("money-input").props.value).toBe("$150.00")
+    expect(onCommit).toHaveBeenCalledWith({ amount: 150, currency: "USD" })
+  })
+
+  it("renders a custom currency picker", async () => {
+    const onChangeValue = jest.fn()
+    const { getByTestId, getByText } = render(
+      <MoneyInput
+        locale="en-US"
+        value={null}
+        currencies={["USD", "GBP"]}
+        onChangeValue={onChangeValue}
+        renderCurrencyPicker={({ currency, currencies, onSelect }) => (
+          <Pressable
+            testID="picker"
+            onPress={() => onSelect(currencies.find((code) => code !== currency) ?? currency)}
+          >
+            <Text>{currency}</Text>
+          </Pressable>
+        )}
+        testID="money-input"
+      />
+    )
+
+    expect(getByText("USD")).toBeTruthy()
+    fireEvent.changeText(getByTestId("money-input"), "5")
+    fireEvent.press(getByTestId("picker"))
+
+    await waitFor(() =>
+      expect(onChangeValue).toHaveBeenLastCalledWith({ amount: 5, currency: "GBP" })
+    )
+    expect(getByTestId("money-input").props.value).toBe("£5.00")
+  })
+})
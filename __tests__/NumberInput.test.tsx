@@ -0,0 +1,51 @@
+import React from "react"
+import { fireEvent, render, waitFor } from "@testing-library/react-native"
+import { NumberInput } from "../src/components/NumberInput"
+import { NumberText } from "../src/components/NumberText"
+
+describe("NumberInput", () => {
+  it("formats typed numbers with grouping and units", async () => {
+    const onChangeValue = jest.fn()
+    const onChangeText = jest.fn()
+
+    const { getByTestId } = render(
+      <NumberInput
+        locale="en-US"
+        unit="kilogram"
+        value={null}
+        onChangeValue={onChangeValue}
+        onChangeText={onChangeText}
+        testID="number-input"
+      />
+    )
+
+    fireEvent.changeText(getByTestId("number-input"), "1234.5")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(1234.5))
+    expect(onChangeText).toHaveBeenLastCalledWith("1,234.5 kg")
+  })
+
+  it("can turn grouping off", async () => {
+    const onChangeText = jest.fn()
+
+    const { getByTestId } = render(
+      <NumberInput
+        locale="en-US"
+        useGrouping={false}
+        value={null}
+        onChangeValue={() => {}}
+        onChangeText={onChangeText}
+        testID="number-input"
+      />
+    )
+
+    fireEvent.changeText(getByTestId("number-input"), "12345")
+    await waitFor(() => expect(onChangeText).toHaveBeenLastCalledWith("12345"))
+  })
+})
+
+describe("NumberText", () => {
+  it("renders compact values", () => {
+    const { getByText } = render(<NumberText value={3400000} locale="en-US" notation="compact" />)
+    getByText("3.4M")
+  })
+})
@@ -0,0 +1,93 @@
+import React from "react"
+import { fireEvent, render, waitFor } from "@testing-library/react-native"
+import { PercentInput } from "../src/components/PercentInput"
+import { PercentText } from "../src/components/PercentText"
+
+describe("PercentInput", () => {
+  it("emits ratios while showing percent text", async () => {
+    const onChangeValue = jest.fn()
+    const onChangeText = jest.fn()
+
+    const { getByTestId } = render(
+      <PercentInput
+        locale="en-US"
+        value={null}
+        onChangeValue={onChangeValue}
+        onChangeText={onChangeText}
+        testID="percent-input"
+      />
+    )
+
+    fireEvent.changeText(getByTestId("percent-input"), "12.5")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(0.125))
+    expect(onChangeText).toHaveBeenLastCalledWith("12.5%")
+  })
+
+  it("keeps the decimal separator before the percent sign", async () => {
+    const onChangeText = jest.fn()
+
+    const { getByTestId } = render(
+      <PercentInput
+        locale="en-US"
+        value={null}
+        onChangeValue={() => {}}
+        onChangeText={onChangeText}
+        testID="percent-input"
+      />
+    )
+
+    fireEvent.changeText(getByTestId("percent-input"), "12.")
+    await waitFor(() => expect(onChangeText).toHaveBeenLastCalledWith("12.%"))
+  })
+
+  it("re-validates the current ratio when validate changes", async () => {
+    const onValidationError = jest.fn()
+    const field = (limit: number) => (
+      <PercentInput
+        locale="en-US"
+        value={0.5}
+        validate={(value) => (value != null && value > limit ? `Above ${limit}` : null)}
+        onChangeValue={() => {}}
+        onValidationError={onValidationError}
+        testID="percent-input"
+      />
+    )
+
+    const { rerender } = render(field(1))
+    expect(onValidationError).toHaveBeenLastCalledWith(null)
+
+    rerender(field(0.25))
+    await waitFor(() => expect(onValidationError).toHaveBeenLastCalledWith("Above 0.25"))
+  })
+
+  it("supports percent-point values with bounds", async () => {
+    const onChangeValue = jest.fn()
+    const onValidationError = jest.fn()
+
+    const { getByTestId } = render(
+      <PercentInput
+        locale="en-US"
+        valueScale="percent"
+        value={null}
+        minimumValue={0}
+        maximumValue={100}
+        onChangeValue={onChangeValue}
+        onValidationError={onValidationError}
+        testID="percent-input"
+      />
+    )
+
+    fireEvent.changeText(getByTestId("percent-input"), "42")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(42))
+
+    fireEvent.changeText(getByTestId("percent-input"), "420")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(100))
+  })
+})
+
+describe("PercentText", () => {
+  it("renders formatted percentages", () => {
+    const { getByText } = render(<PercentText value={0.07} locale="en-US" fractionDigits={0} />)
+    getByText("7%")
+  })
+})
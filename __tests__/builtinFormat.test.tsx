@@ -0,0 +1,118 @@
+import React from "react"
+import { fireEvent, render, waitFor } from "@testing-library/react-native"
+import { CurrencyInput } from "../src/components/CurrencyInput"
+import { getLocaleData, registerLocaleData, resolveFormatEngine } from "../src/core/builtinFormat"
+import {
+  CurrencyFormattingOptions,
+  formatCurrency,
+  getDecimalSeparator,
+} from "../src/core/currency"
+import { defineCurrency } from "../src/core/currencyRegistry"
+import { clearNumberFormatCache } from "../src/core/formatterCache"
+import * as locales from "../src/core/locales"
+
+const ALL_LOCALES = Object.values(locales)
+
+describe("built-in formatting engine", () => {
+  beforeAll(() => {
+    registerLocaleData(...ALL_LOCALES)
+  })
+
+  it("matches Intl for every bundled locale", () => {
+    const samples: [number | string, Partial<CurrencyFormattingOptions>][] = [
+      [1234567.891, { currency: "EUR" }],
+      [-1234.5, { currency: "USD" }],
+      [-1234.5, { currency: "EUR", currencySign: "accounting" }],
+      [0.5, { currency: "JPY" }],
+      [1234, { currency: "KWD" }],
+      [12, { currency: "USD", currencyDisplay: "code" }],
+      [12, { currency: "GBP", signDisplay: "always" }],
+      [-0.001, { currency: "EUR", signDisplay: "exceptZero" }],
+      ["98765432109876543.21", { currency: "CHF" }],
+    ]
+
+    for (const data of ALL_LOCALES) {
+      for (const [value, options] of samples) {
+        const shared = { currency: "USD", ...options, locale: data.locale }
+        expect([data.locale, formatCurrency(value, { ...shared, engine: "builtin" })]).toEqual([
+          data.locale,
+          formatCurrency(value, { ...shared, engine: "intl" }),
+        ])
+      }
+    }
+  })
+
+  it("reads separators from locale data", () => {
+    expect(getDecimalSeparator("de-DE", "builtin")).toBe(",")
+    expect(getDecimalSeparator("xx-XX", "builtin")).toBe(".")
+    expect(getLocaleData("de-AT")?.locale).toBe("de-DE")
+    expect(getLocaleData("de_CH")?.locale).toBe("de-CH")
+    expect(getLocaleData("ja")?.locale).toBe("ja-JP")
+  })
+
+  it("formats custom currencies without Intl", () => {
+    defineCurrency({ code: "GLD", symbol: "G$", fractionDigits: 2 })
+
+    expect(formatCurrency(-1234.5, { currency: "GLD", locale: "fr-FR", engine: "builtin" })).toBe(
+      "-G$1\u202f234,50"
+    )
+  })
+
+  describe("automatic fallback", () => {
+    const realIntl = global.Intl
+
+    afterEach(() => {
+      global.Intl = realIntl
+      clearNumberFormatCache()
+    })
+
+    it("uses Intl when it has the locale", () => {
+      expect(resolveFormatEngine("de-DE")).toBe("intl")
+      expect(resolveFormatEngine(undefined)).toBe("intl")
+    })
+
+    it("formats without Intl", () => {
+      // @ts-expect-error simulating a runtime without Intl
+      global.Intl = undefined
+
+      expect(resolveFormatEngine("de-DE")).toBe("builtin")
+      expect(formatCurrency(1234.5, { currency: "EUR", locale: "de-DE" })).toBe("1.234,50\u00a0€")
+      expect(getDecimalSeparator("de-DE")).toBe(",")
+    })
+
+    it("falls back when Intl lacks formatToParts or the locale", () => {
+      const EnglishOnly = function (this: unknown, _locale: unknown, options: unknown) {
+        const formatter = new realIntl.NumberFormat("en-US", options as Intl.NumberFormatOptions)
+        return { format: (value: number) => formatter.format(value) }
+      }
+      global.Intl = { ...realIntl, NumberFormat: EnglishOnly } as unknown as typeof Intl
+      expect(resolveFormatEngine("fr-FR")).toBe("builtin")
+      expect(formatCurrency(-5, { currency: "EUR", locale: "fr-FR" })).toBe("-5,00\u00a0€")
+
+      const WrongLocale = function (_locale: unknown, options: unknown) {
+        return new realIntl.NumberFormat("en-US", options as Intl.NumberFormatOptions)
+      }
+      global.Intl = { ...realIntl, NumberFormat: WrongLocale } as unknown as typeof Intl
+      expect(resolveFormatEngine("fr-FR")).toBe("builtin")
+      expect(resolveFormatEngine("en-GB")).toBe("intl")
+    })
+  })
+
+  it("edits amounts with the built-in engine", async () => {
+    const onChangeValue = jest.fn()
+    const { getByTestId } = render(
+      <CurrencyInput
+        currency="EUR"
+        locale="de-DE"
+        engine="builtin"
+        value={null}
+        onChangeValue={onChangeValue}
+        testID="currency-input"
+      />
+    )
+
+    fireEvent.changeText(getByTestId("currency-input"), "1234,5")
+    await waitFor(() => expect(onChangeValue).toHaveBeenLastCalledWith(1234.5))
+    expect(getByTestId("currency-input").props.value).toBe("1.234,5\u00a0€")
+  })
+})
@@ -0,0 +1,107 @@
+import { detectCardBrand, luhnCheck } from "../src/formatters/card/cardBrands"
+import { createCardCvcFormatter } from "../src/formatters/card/createCardCvcFormatter"
+import { createCardExpiryFormatter } from "../src/formatters/card/createCardExpiryFormatter"
+import { createCardNumberFormatter } from "../src/formatters/card/createCardNumberFormatter"
+
+describe("detectCardBrand", () => {
+  it.each([
+    ["4111", "visa"],
+    ["5555", "mastercard"],
+    ["2223", "mastercard"],
+    ["3782", "amex"],
+    ["6011", "discover"],
+    ["622126", "discover"],
+    ["3622", "diners"],
+    ["3530", "jcb"],
+    ["6200", "unionpay"],
+    ["6759", "maestro"],
+  ])("detects %s as %s", (digits, brand) => {
+    expect(detectCardBrand(digits)?.brand).toBe(brand)
+  })
+
+  it("returns null for unknown prefixes", () => {
+    expect(detectCardBrand("9999")).toBeNull()
+    expect(detectCardBrand("")).toBeNull()
+  })
+})
+
+describe("luhnCheck", () => {
+  it("validates checksums", () => {
+    expect(luhnCheck("4111111111111111")).toBe(true)
+    expect(luhnCheck("4111111111111112")).toBe(false)
+  })
+})
+
+describe("createCardNumberFormatter", () => {
+  const formatter = createCardNumberFormatter()
+
+  it("groups digits by brand", () => {
+    expect(formatter.parse("4111111111111111").text).toBe("4111 1111 1111 1111")
+    expect(formatter.parse("378282246310005").text).toBe("3782 822463 10005")
+    expect(formatter.format("36227206271667").text).toBe("3622 720627 1667")
+  })
+
+  it("caps the length per brand", () => {
+    const result = formatter.parse("3782822463100059999")
+    expect(result.value).toBe("378282246310005")
+    expect(result.error).toBeNull()
+  })
+
+  it("reports incomplete numbers and Luhn failures", () => {
+    expect(formatter.parse("4111 1111").error).toBe("Card number is incomplete")
+    expect(formatter.parse("4111 1111 1111 1112").error).toBe("Invalid card number")
+  })
+
+  it("restricts accepted brands", () => {
+    const visaOnly = createCardNumberFormatter({ brands: ["visa"] })
+    expect(visaOnly.parse("5555555555554444").error).toBe("Mastercard is not supported")
+    expect(visaOnly.parse("4111111111111111").error).toBeNull()
+  })
+})
+
+describe("createCardExpiryFormatter", () => {
+  const formatter = createCardExpiryFormatter({ now: () => new Date(2025, 5, 15) })
+
+  it("auto-prefixes single-digit months and inserts the separator", () => {
+    expect(formatter.parse("4").text).toBe("04/")
+    expect(formatter.parse("1").text).toBe("1")
+    expect(formatter.parse("1/").text).toBe("01/")
+    expect(formatter.parse("123").text).toBe("12/3")
+    expect(formatter.parse("04").text).toBe("04")
+  })
+
+  it("returns month and full year once complete", () => {
+    expect(formatter.parse("12/27")).toEqual({
+      value: { month: 12, year: 2027 },
+      rawValue: "1227",
+      text: "12/27",
+      error: null,
+    })
+    expect(formatter.format({ month: 3, year: 2030 })).toEqual({ text: "03/30", rawValue: "0330" })
+  })
+
+  it("validates month, completeness and expiry against the injected clock", () => {
+    expect(formatter.parse("13").error).toBe("Invalid expiry month")
+    expect(formatter.parse("12/2").error).toBe("Expiry date is incomplete")
+    expect(formatter.parse("05/25").error).toBe("Card has expired")
+    expect(formatter.parse("06/25").error).toBeNull()
+  })
+})
+
+describe("createCardCvcFormatter", () => {
+  it("uses the brand's security code length", () => {
+    const amex = createCardCvcFormatter({ brand: "amex" })
+    expect(amex.parse("123").error).toBe("Security code is incomplete")
+    expect(amex.parse("12345")).toEqual({ value: "1234", rawValue: "1234", error: null })
+
+    const visa = createCardCvcFormatter({ brand: "visa" })
+    expect(visa.parse("1234").value).toBe("123")
+  })
+
+  it("accepts three or four digits when the brand is unknown", () => {
+    const formatter = createCardCvcFormatter()
+    expect(formatter.parse("123").error).toBeNull()
+    expect(formatter.parse("1234").error).toBeNull()
+    expect(formatter.parse("12").error).toBe("Security code is incomplete")
+  })
+})
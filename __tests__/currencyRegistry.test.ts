@@ -0,0 +1,122 @@
+import { formatCurrency, formatRawDigits, resolveFractionDigits } from "../src/core/currency"
+import {
+  defineCurrency,
+  getCurrencyInfo,
+  listCurrencies,
+  registerCurrency,
+} from "../src/core/currencyRegistry"
+import { createCurrencyFormatter } from "../src/formatters/currency/createCurrencyFormatter"
+
+describe("currency registry", () => {
+  it("bundles ISO 4217 metadata", () => {
+    expect(getCurrencyInfo("jpy")).toEqual({
+      code: "JPY",
+      exponent: 0,
+      symbol: "¥",
+      narrowSymbol: "¥",
+      name: "Japanese Yen",
+    })
+    expect(getCurrencyInfo("KWD")?.exponent).toBe(3)
+    expect(getCurrencyInfo("CAD")?.narrowSymbol).toBe("$")
+    expect(getCurrencyInfo("XYZ")).toBeNull()
+    expect(listCurrencies().length).toBeGreaterThan(150)
+  })
+
+  it("drives default fraction digits", () => {
+    expect(resolveFractionDigits({ currency: "JPY" })).toEqual({
+      minFractionDigits: 0,
+      maxFractionDigits: 0,
+    })
+    expect(resolveFractionDigits({ currency: "KWD" })).toEqual({
+      minFractionDigits: 3,
+      maxFractionDigits: 3,
+    })
+    expect(resolveFractionDigits({ currency: "JPY", fractionDigits: 2 }).maxFractionDigits).toBe(2)
+    expect(resolveFractionDigits({}).maxFractionDigits).toBe(2)
+
+    expect(formatCurrency(1234.5, { currency: "KWD", locale: "en-US" })).toBe("KWD\u00a01,234.500")
+    expect(formatCurrency(1234, { currency: "JPY", locale: "en-US" })).toBe("¥1,234")
+  })
+
+  it("accepts registered currencies and overrides", () => {
+    registerCurrency({
+      code: "HUF",
+      exponent: 0,
+      symbol: "Ft",
+      narrowSymbol: "Ft",
+      name: "Hungarian Forint",
+    })
+    expect(resolveFractionDigits({ currency: "HUF" }).maxFractionDigits).toBe(0)
+
+    registerCurrency({ code: "tst", exponent: 1, symbol: "T", narrowSymbol: "T", name: "Test" })
+    expect(getCurrencyInfo("TST")?.code).toBe("TST")
+
+    expect(() =>
+      registerCurrency({ code: "X", exponent: 2, symbol: "X", narrowSymbol: "X", name: "X" })
+    ).toThrow("Invalid currency code: X")
+    expect(() =>
+      registerCurrency({ code: "ABC", exponent: 1.5, symbol: "A", narrowSymbol: "A", name: "A" })
+    ).toThrow("Invalid minor-unit exponent for ABC: 1.5")
+  })
+})
+
+describe("custom currencies", () => {
+  beforeAll(() => {
+    defineCurrency({ code: "BTC", symbol: "₿", fractionDigits: 8 })
+    defineCurrency({
+      code: "PTS",
+      symbol: "pts",
+      fractionDigits: 0,
+      symbolPosition: "suffix",
+      spacing: true,
+    })
+  })
+
+  it("formats custom currencies as decimals with their affixes", () => {
+    expect(formatCurrency(0.5, { currency: "BTC", locale: "en-US" })).toBe("₿0.50000000")
+    expect(
+      formatCurrency("-0.00012345", { currency: "BTC", locale: "en-US", minimumFractionDigits: 0 })
+    ).toBe("-₿0.00012345")
+    expect(formatCurrency(1234, { currency: "PTS", locale: "de-DE" })).toBe("1.234\u00a0pts")
+    expect(
+      formatCurrency(-5, { currency: "PTS", locale: "en-US", currencySign: "accounting" })
+    ).toBe("(5\u00a0pts)")
+    expect(formatCurrency(0, { currency: "PTS", locale: "en-US", signDisplay: "exceptZero" })).toBe(
+      "0\u00a0pts"
+    )
+  })
+
+  it("honours currencyDisplay", () => {
+    const options = { currency: "BTC", locale: "en-US", minimumFractionDigits: 0 }
+
+    expect(formatCurrency(1.5, { ...options, currencyDisplay: "code" })).toBe("BTC\u00a01.5")
+    expect(formatCurrency(1.5, { ...options, currencyDisplay: "name" })).toBe("1.5 BTC")
+    expect(formatCurrency(-2, { currency: "PTS", locale: "en-US", currencyDisplay: "code" })).toBe(
+      "-2\u00a0PTS"
+    )
+  })
+
+  it("uses compact notation for custom currencies", () => {
+    expect(formatCurrency(2500000, { currency: "PTS", locale: "en-US", notation: "compact" })).toBe(
+      "2.5M\u00a0pts"
+    )
+  })
+
+  it("falls back to the code for currencies Intl rejects", () => {
+    expect(formatCurrency(12.5, { currency: "USDT", locale: "en-US" })).toBe("USDT\u00a012.50")
+  })
+
+  it("runs custom currencies through the raw digit and formatter pipeline", () => {
+    expect(
+      formatRawDigits("150000000", { currency: "BTC", locale: "en-US" }, "currency", false).text
+    ).toBe("₿1.50000000")
+
+    const formatter = createCurrencyFormatter({
+      currency: "BTC",
+      locale: "en-US",
+      valueType: "string",
+    })
+    expect(formatter.parse("₿0.00012345").value).toBe("0.00012345")
+    expect(formatter.format("21000000").text).toBe("₿21,000,000.00000000")
+  })
+})
@@ -1,4 +1,11 @@
-import { formatCurrency, parseCurrencyFromDigits } from "../src/core/currency"
+import {
+  formatCurrency,
+  formatRawDigits,
+  insertDecimalSeparator,
+  parseCurrencyFromDigits,
+} from "../src/core/currency"
+import { compareSignedDigits } from "../src/core/numericValue"
+import { createCurrencyFormatter } from "../src/formatters/currency/createCurrencyFormatter"
 
 describe("parseCurrencyFromDigits", () => {
   it("returns null for empty digits", () => {
@@ -59,8 +66,217 @@ describe("formatCurrency", () => {
     expect(formatCurrency(null, { currency: "USD" })).toBe("")
   })
 
+  it("formats decimal strings without losing precision", () => {
+    expect(formatCurrency("12345678901234567.89", { currency: "EUR", locale: "de-DE" })).toBe(
+      "12.345.678.901.234.567,89\u00a0€"
+    )
+    expect(formatCurrency("not a number", { currency: "EUR" })).toBe("")
+  })
+
   it("formats numeric values with the given locale", () => {
     const result = formatCurrency(12.34, { currency: "USD", locale: "en-US" })
     expect(result).toContain("12.34")
   })
+
+  it("passes currencyDisplay to Intl", () => {
+    const options = { currency: "USD", locale: "en-US" }
+
+    expect(formatCurrency(12, { ...options, currencyDisplay: "code" })).toBe("USD\u00a012.00")
+    expect(formatCurrency(12, { ...options, currencyDisplay: "name" })).toBe("12.00 US dollars")
+    expect(formatCurrency(12, { ...options, locale: "en-CA" })).toBe("US$12.00")
+    expect(
+      formatCurrency(12, { ...options, locale: "en-CA", currencyDisplay: "narrowSymbol" })
+    ).toBe("$12.00")
+  })
+
+  it("supports compact notation with a threshold", () => {
+    const options = { currency: "USD", locale: "en-US", notation: "compact" as const }
+
+    expect(formatCurrency(1234, options)).toBe("$1.2K")
+    expect(formatCurrency("3400000", options)).toBe("$3.4M")
+    expect(formatCurrency(120000, { ...options, currency: "INR", locale: "en-IN" })).toBe("₹1.2L")
+    expect(
+      formatCurrency(120000, { ...options, currency: "INR", locale: "hi-IN", compactDisplay: "long" })
+    ).toBe("₹1.2\u00a0लाख")
+    expect(formatCurrency(1234, { ...options, maximumFractionDigits: 2 })).toBe("$1.23K")
+    expect(formatCurrency(999.5, { ...options, compactThreshold: 1000 })).toBe("$999.50")
+    expect(formatCurrency(-1500, { ...options, compactThreshold: 1000 })).toBe("-$1.5K")
+  })
+
+  it("supports accounting negatives and sign display", () => {
+    const options = { currency: "USD", locale: "en-US" }
+
+    expect(formatCurrency(-1234, { ...options, currencySign: "accounting" })).toBe("($1,234.00)")
+    expect(formatCurrency("-1234.5", { ...options, currencySign: "accounting" })).toBe("($1,234.50)")
+    expect(formatCurrency(5, { ...options, signDisplay: "always" })).toBe("+$5.00")
+    expect(formatCurrency(0, { ...options, signDisplay: "exceptZero" })).toBe("$0.00")
+    expect(formatCurrency(-0.001, { ...options, signDisplay: "negative" })).toBe("$0.00")
+    expect(formatCurrency(-5, { ...options, signDisplay: "never" })).toBe("$5.00")
+  })
+
+  it("applies a custom negative template", () => {
+    const options = { currency: "EUR", locale: "de-DE", negativeTemplate: "{value} DR" }
+
+    expect(formatCurrency(-12.5, options)).toBe("12,50\u00a0€ DR")
+    expect(formatCurrency(12.5, options)).toBe("12,50\u00a0€")
+    expect(formatCurrency(-12.5, { ...options, signDisplay: "never" })).toBe("12,50\u00a0€")
+  })
+
+  it("applies sign options to unformatted digits", () => {
+    const options = { currency: "USD", locale: "en-US", allowNegative: true }
+
+    expect(
+      formatRawDigits("123400", { ...options, currencySign: "accounting" }, "none", true).text
+    ).toBe("(1234.00)")
+    expect(formatRawDigits("500", { ...options, signDisplay: "always" }, "none", false).text).toBe("+5.00")
+    expect(formatRawDigits("0", { ...options, signDisplay: "exceptZero" }, "none", true).text).toBe("0.00")
+    expect(
+      formatRawDigits("500", { ...options, negativeTemplate: "{value} CR" }, "none", true).text
+    ).toBe("5.00 CR")
+  })
+})
+
+describe("insertDecimalSeparator", () => {
+  it("inserts the separator after the last digit", () => {
+    expect(insertDecimalSeparator("$12", ".")).toBe("$12.")
+    expect(insertDecimalSeparator("12\u00a0€", ",")).toBe("12,\u00a0€")
+    expect(insertDecimalSeparator("12%", ".")).toBe("12.%")
+  })
+})
+
+describe("compareSignedDigits", () => {
+  it("orders signed digit strings without converting them to numbers", () => {
+    const amount = (digits: string, isNegative = false) => ({ digits, isNegative })
+
+    expect(compareSignedDigits(amount("0105"), amount("105"))).toBe(0)
+    expect(compareSignedDigits(amount("99"), amount("100"))).toBe(-1)
+    expect(compareSignedDigits(amount("99", true), amount("100", true))).toBe(1)
+    expect(compareSignedDigits(amount("0", true), amount("0"))).toBe(0)
+  })
+})
+
+describe("createCurrencyFormatter", () => {
+  it("formats and parses integer minor units", () => {
+    const formatter = createCurrencyFormatter({
+      currency: "USD",
+      locale: "en-US",
+      valueType: "minor",
+      allowNegative: true,
+    })
+
+    expect(formatter.format(123456)).toEqual({ text: "$1,234.56", rawValue: "123456" })
+    expect(formatter.parse("-$0.29")).toEqual({
+      value: -29,
+      rawValue: "029",
+      error: null,
+      errors: [],
+    })
+    expect(formatter.parse("$90,071,992,547,409.91").value).toBe(9007199254740991)
+  })
+
+  it("keeps full precision for decimal string and bigint values", () => {
+    const decimal = createCurrencyFormatter({
+      currency: "USD",
+      locale: "en-US",
+      valueType: "string",
+    })
+    expect(decimal.parse("$98,765,432,109,876,543.21").value).toBe("98765432109876543.21")
+    expect(decimal.format("12345678901234567.895").text).toBe("$12,345,678,901,234,567.90")
+
+    const units = createCurrencyFormatter({
+      currency: "IDR",
+      locale: "en-US",
+      fractionDigits: 0,
+      valueType: "bigint",
+      maximumValue: BigInt("99999999999999999999"),
+    })
+    expect(units.parse("IDR 123,456,789,012,345,678,901").value).toBe(BigInt("99999999999999999999"))
+    expect(units.format(BigInt("9007199254740993")).text).toBe("IDR\u00a09,007,199,254,740,993")
+  })
+
+  it("applies minimum and maximum values in minor units", () => {
+    const formatter = createCurrencyFormatter({
+      currency: "JPY",
+      locale: "en-US",
+      fractionDigits: 0,
+      valueType: "minor",
+      maximumValue: 1000,
+    })
+
+    expect(formatter.parse("¥5,000").value).toBe(1000)
+    expect(formatter.format(250)).toEqual({ text: "¥250", rawValue: "250" })
+  })
+
+  it("parses amounts shown with codes and names", () => {
+    const named = createCurrencyFormatter({
+      currency: "USD",
+      locale: "de-DE",
+      currencyDisplay: "name",
+      allowNegative: true,
+    })
+
+    expect(named.format(1234.5).text).toBe("1.234,50 US-Dollar")
+    expect(named.parse("1.234,50 US-Dollar").value).toBe(1234.5)
+    expect(named.parse("-1.234,50 US-Dollar").value).toBe(-1234.5)
+  })
+
+  it("formats and parses accounting negatives", () => {
+    const formatter = createCurrencyFormatter({
+      currency: "USD",
+      locale: "en-US",
+      allowNegative: true,
+      currencySign: "accounting",
+    })
+
+    expect(formatter.format(-1234.5).text).toBe("($1,234.50)")
+    expect(formatter.parse("($1,234.50)").value).toBe(-1234.5)
+    expect(formatter.parse("(-$1,234.50)").value).toBe(1234.5)
+    expect(formatter.parse("-$1,234.50").value).toBe(-1234.5)
+  })
+
+  it("returns every validation error with codes and params", () => {
+    const formatter = createCurrencyFormatter({
+      currency: "USD",
+      locale: "en-US",
+      maxDigits: 3,
+      validate: (value) => (value === 234.56 ? "Pick another amount" : null),
+    })
+
+    const parsed = formatter.parse("$1,234.56")
+    expect(parsed.errors).toEqual([
+      { code: "maxDigits", params: { maxDigits: 3 }, message: "Maximum digits is 3" },
+      {
+        code: "custom",
+        params: { message: "Pick another amount" },
+        message: "Pick another amount",
+      },
+    ])
+    expect(parsed.error).toBe("Pick another amount")
+  })
+
+  it("translates validation errors with a messages map or function", () => {
+    const mapped = createCurrencyFormatter({
+      currency: "EUR",
+      locale: "de-DE",
+      maxDigits: 4,
+      messages: { maxDigits: "Höchstens {maxDigits} Ziffern" },
+    })
+    expect(mapped.parse("12.345,67").error).toBe("Höchstens 4 Ziffern")
+
+    const translated = createCurrencyFormatter({
+      currency: "EUR",
+      locale: "de-DE",
+      maxDigits: 4,
+      messages: ({ code, params }) => (code === "maxDigits" ? `Max. ${params.maxDigits}` : null),
+    })
+    expect(translated.parse("12.345,67").error).toBe("Max. 4")
+
+    const fallback = createCurrencyFormatter({
+      currency: "EUR",
+      locale: "de-DE",
+      maxDigits: 4,
+      messages: () => undefined,
+    })
+    expect(fallback.parse("12.345,67").error).toBe("Maximum digits is 4")
+  })
 })
@@ -0,0 +1,63 @@
+import { createDateFormatter, resolveDateLayout } from "../src/formatters/date/createDateFormatter"
+
+describe("resolveDateLayout", () => {
+  it("infers field order and separator from the locale", () => {
+    expect(resolveDateLayout("en-US")).toEqual({ order: ["month", "day", "year"], separator: "/" })
+    expect(resolveDateLayout("en-GB")).toEqual({ order: ["day", "month", "year"], separator: "/" })
+    expect(resolveDateLayout("de-DE")).toEqual({ order: ["day", "month", "year"], separator: "." })
+  })
+})
+
+describe("createDateFormatter", () => {
+  it("inserts separators while typing and parses complete dates", () => {
+    const formatter = createDateFormatter({ locale: "en-US" })
+
+    expect(formatter.parse("12").text).toBe("12")
+    expect(formatter.parse("122").text).toBe("12/2")
+    expect(formatter.parse("12/").text).toBe("12/")
+
+    const result = formatter.parse("12252024")
+    expect(result.text).toBe("12/25/2024")
+    expect(result.rawValue).toBe("12252024")
+    expect(result.value).toEqual(new Date(2024, 11, 25))
+    expect(result.error).toBeNull()
+  })
+
+  it("pads single-digit fields that cannot be extended", () => {
+    const formatter = createDateFormatter({ locale: "en-US" })
+
+    expect(formatter.parse("4").text).toBe("04/")
+    expect(formatter.parse("1/5").text).toBe("01/05/")
+  })
+
+  it("reports incomplete and impossible dates", () => {
+    const formatter = createDateFormatter({ locale: "de-DE" })
+
+    expect(formatter.parse("31.0")).toMatchObject({ value: null, error: "Date is incomplete" })
+    expect(formatter.parse("31022024")).toMatchObject({
+      value: null,
+      text: "31.02.2024",
+      error: "Invalid date",
+    })
+    expect(formatter.parse("29022024").value).toEqual(new Date(2024, 1, 29))
+  })
+
+  it("supports an explicit pattern", () => {
+    const formatter = createDateFormatter({ pattern: "YYYY-MM-DD" })
+
+    expect(formatter.format(new Date(2024, 0, 5))).toEqual({ text: "2024-01-05", rawValue: "20240105" })
+    expect(formatter.parse("20240105").value).toEqual(new Date(2024, 0, 5))
+  })
+
+  it("enforces minimum and maximum dates", () => {
+    const formatter = createDateFormatter({
+      locale: "en-GB",
+      minimumDate: new Date(2000, 0, 1),
+      maximumDate: new Date(2010, 11, 31),
+    })
+
+    expect(formatter.parse("31121999").error).toBe("Date must be on or after 01/01/2000")
+    expect(formatter.parse("01012011").error).toBe("Date must be on or before 31/12/2010")
+    expect(formatter.parse("15062005").error).toBeNull()
+  })
+})
@@ -0,0 +1,47 @@
+import {
+  assembleDecimalString,
+  parseDecimalString,
+  roundDecimalParts,
+  shiftDecimalString,
+} from "../src/core/decimalFormat"
+
+describe("assembleDecimalString", () => {
+  it.each([
+    ["en-US", { style: "currency", currency: "USD" }, "-12345678901234567.895"],
+    ["de-DE", { style: "currency", currency: "EUR" }, "1234567.5"],
+    ["en-IN", { style: "currency", currency: "INR" }, "123456789.01"],
+    ["es-ES", { style: "currency", currency: "EUR" }, "1234.5"],
+    ["es-ES", { style: "currency", currency: "EUR" }, "12345.5"],
+    ["ja-JP", { style: "currency", currency: "JPY" }, "9007199254740993"],
+    ["ar-EG", { style: "currency", currency: "EGP" }, "1234567.25"],
+    ["en-US", { style: "percent", maximumFractionDigits: 1 }, "0.12345"],
+    ["fr-FR", { style: "unit", unit: "kilogram", minimumFractionDigits: 0 }, "1234567.10"],
+  ] as [string, Intl.NumberFormatOptions, string][])(
+    "matches Intl string formatting for %s %j",
+    (locale, options, decimal) => {
+      const formatter = new Intl.NumberFormat(locale, options)
+      expect(assembleDecimalString(formatter, decimal)).toBe(
+        formatter.format(decimal as unknown as number)
+      )
+    }
+  )
+})
+
+describe("decimal string helpers", () => {
+  it("parses and rounds without converting to a number", () => {
+    const parts = parseDecimalString("-0099999999999999999.995")
+    expect(parts).toEqual({ isNegative: true, integer: "99999999999999999", fraction: "995" })
+    expect(roundDecimalParts(parts!, 2)).toEqual({
+      isNegative: true,
+      integer: "100000000000000000",
+      fraction: "00",
+    })
+    expect(parseDecimalString("1.2.3")).toBeNull()
+  })
+
+  it("shifts the decimal point", () => {
+    expect(shiftDecimalString("12.5", -2)).toBe("0.125")
+    expect(shiftDecimalString("0.125", 2)).toBe("12.5")
+    expect(shiftDecimalString("-3", -3)).toBe("-0.003")
+  })
+})
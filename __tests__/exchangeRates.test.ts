@@ -0,0 +1,72 @@
+import { convertAmount, createStaticRateProvider, isRateStale } from "../src/core/exchangeRates"
+
+describe("exchange rates", () => {
+  it("rounds converted amounts to the target currency", () => {
+    expect(convertAmount(12, { from: "USD", to: "EUR", rate: 0.9183 })).toBe(11.02)
+    expect(convertAmount(12.34, { from: "USD", to: "JPY", rate: "151.37" })).toBe(1868)
+    expect(convertAmount(10, { from: "USD", to: "KWD", rate: 0.30745 })).toBe(3.075)
+    expect(convertAmount(-10, { from: "USD", to: "EUR", rate: 0.925 })).toBe(-9.25)
+    expect(convertAmount(null, { from: "USD", to: "EUR", rate: 0.9 })).toBeNull()
+  })
+
+  it("converts every value type without going through floats", () => {
+    expect(convertAmount(1234, { from: "USD", to: "JPY", rate: 151.5, valueType: "minor" })).toBe(
+      1870
+    )
+    expect(
+      convertAmount("90071992547409.93", { from: "USD", to: "EUR", rate: "1", valueType: "string" })
+    ).toBe("90071992547409.93")
+    expect(
+      convertAmount(BigInt("9007199254740993"), {
+        from: "JPY",
+        to: "USD",
+        rate: "0.01",
+        valueType: "bigint",
+      })
+    ).toBe(BigInt("9007199254740993"))
+    expect(convertAmount(100, { from: "USD", to: "EUR", rate: 1e-7, fractionDigits: 8 })).toBe(
+      0.00001
+    )
+  })
+
+  it("reads the value at the source's overridden fraction digits", () => {
+    const fromFractionOptions = { fractionDigits: 3 }
+    expect(
+      convertAmount(12345, {
+        from: "USD",
+        to: "EUR",
+        rate: 1,
+        valueType: "minor",
+        fromFractionOptions,
+      })
+    ).toBe(1235)
+    expect(convertAmount(1.234, { from: "USD", to: "JPY", rate: 1000, fromFractionOptions })).toBe(
+      1234
+    )
+  })
+
+  it("rejects rates that are not numbers", () => {
+    expect(() => convertAmount(1, { from: "USD", to: "EUR", rate: "abc" })).toThrow(
+      "Invalid exchange rate: abc"
+    )
+  })
+
+  it("looks up static rates directly, inverted or for the same currency", () => {
+    const provider = createStaticRateProvider({ USD: { EUR: 0.8 } }, { asOf: 1000 })
+
+    expect(provider.getRate("usd", "EUR")).toEqual({ rate: 0.8, asOf: 1000 })
+    expect(provider.getRate("EUR", "USD")).toEqual({ rate: 1.25, asOf: 1000 })
+    expect(provider.getRate("GBP", "GBP")).toEqual({ rate: 1, asOf: 1000 })
+    expect(provider.getRate("USD", "GBP")).toBeNull()
+
+    const oneWay = createStaticRateProvider({ USD: { EUR: 0.8 } }, { inverse: false })
+    expect(oneWay.getRate("EUR", "USD")).toBeNull()
+  })
+
+  it("flags rates older than staleAfter", () => {
+    expect(isRateStale(new Date(0), 1000, 1001)).toBe(true)
+    expect(isRateStale(0, 1000, 1000)).toBe(false)
+    expect(isRateStale(null, 1000, 5000)).toBe(false)
+    expect(isRateStale(0, undefined, 5000)).toBe(false)
+  })
+})
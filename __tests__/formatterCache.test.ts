@@ -0,0 +1,116 @@
+import { formatCurrency, formatRawDigits, getDecimalSeparator } from "../src/core/currency"
+import {
+  DEFAULT_NUMBER_FORMAT_CACHE_SIZE,
+  clearNumberFormatCache,
+  getNumberFormat,
+  getNumberFormatCacheStats,
+  setNumberFormatCacheSize,
+} from "../src/core/formatterCache"
+
+// Timings vary too much on shared CI machines to gate on, so the benchmark below only runs
+// with BENCHMARK=1 (`BENCHMARK=1 npx jest formatterCache`).
+const benchmarkIt = process.env.BENCHMARK ? it : it.skip
+
+// Runs `run` a few times and keeps the fastest pass, which filters out GC pauses.
+function benchmark(run: () => void, passes = 5) {
+  let fastest = Infinity
+  for (let pass = 0; pass < passes; pass++) {
+    const start = process.hrtime.bigint()
+    run()
+    fastest = Math.min(fastest, Number(process.hrtime.bigint() - start) / 1e6)
+  }
+  return fastest
+}
+
+function renderList(rows: number) {
+  for (let row = 0; row < rows; row++) {
+    formatCurrency(row * 1.25, { currency: "EUR", locale: "de-DE" })
+  }
+}
+
+describe("number format cache", () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+    setNumberFormatCacheSize(DEFAULT_NUMBER_FORMAT_CACHE_SIZE)
+    clearNumberFormatCache()
+  })
+
+  it("shares formatters for equal locale and options", () => {
+    clearNumberFormatCache()
+    const first = getNumberFormat("en-US", { style: "currency", currency: "USD" })
+    const second = getNumberFormat("en-US", {
+      currency: "USD",
+      style: "currency",
+      notation: undefined,
+    })
+
+    expect(second).toBe(first)
+    expect(getNumberFormat("en-GB", { style: "currency", currency: "USD" })).not.toBe(first)
+    expect(getNumberFormatCacheStats()).toEqual({
+      size: 2,
+      maxSize: DEFAULT_NUMBER_FORMAT_CACHE_SIZE,
+      hits: 1,
+      misses: 2,
+    })
+  })
+
+  it("drops the least recently used formatter", () => {
+    clearNumberFormatCache()
+    setNumberFormatCacheSize(2)
+
+    const us = getNumberFormat("en-US")
+    getNumberFormat("de-DE")
+    getNumberFormat("en-US")
+    getNumberFormat("fr-FR")
+
+    expect(getNumberFormat("en-US")).toBe(us)
+    expect(getNumberFormatCacheStats()).toMatchObject({ size: 2, hits: 2, misses: 3 })
+    getNumberFormat("de-DE")
+    expect(getNumberFormatCacheStats().misses).toBe(4)
+  })
+
+  it("rejects invalid sizes", () => {
+    expect(() => setNumberFormatCacheSize(-1)).toThrow("Invalid formatter cache size: -1")
+  })
+
+  it("builds no formatters for repeated keystrokes", () => {
+    formatRawDigits("1234", { currency: "USD", locale: "en-US" }, "currency", false)
+    getDecimalSeparator("en-US")
+    const { misses } = getNumberFormatCacheStats()
+
+    for (const digits of ["12345", "123456", "1234567"]) {
+      formatRawDigits(digits, { currency: "USD", locale: "en-US" }, "currency", false)
+      getDecimalSeparator("en-US")
+    }
+
+    expect(getNumberFormatCacheStats().misses).toBe(misses)
+  })
+
+  it("builds each formatter once for a 500 row list", () => {
+    const NumberFormat = jest.spyOn(Intl, "NumberFormat")
+
+    setNumberFormatCacheSize(0)
+    renderList(500)
+    const uncached = NumberFormat.mock.calls.length
+
+    NumberFormat.mockClear()
+    setNumberFormatCacheSize(DEFAULT_NUMBER_FORMAT_CACHE_SIZE)
+    clearNumberFormatCache()
+    renderList(500)
+
+    expect(uncached).toBeGreaterThanOrEqual(500)
+    expect(NumberFormat).toHaveBeenCalledTimes(1)
+    expect(getNumberFormatCacheStats()).toMatchObject({ hits: 499, misses: 1 })
+  })
+
+  benchmarkIt("formats a 500 row list faster than without the cache", () => {
+    setNumberFormatCacheSize(0)
+    const uncached = benchmark(() => renderList(500))
+
+    setNumberFormatCacheSize(DEFAULT_NUMBER_FORMAT_CACHE_SIZE)
+    const cached = benchmark(() => renderList(500))
+
+    console.log(`500 rows: ${uncached.toFixed(2)} ms uncached, ${cached.toFixed(2)} ms cached`)
+    expect(cached * 2).toBeLessThan(uncached)
+  })
+})
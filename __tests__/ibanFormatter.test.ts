@@ -0,0 +1,37 @@
+import { createIbanFormatter, isValidIbanChecksum } from "../src/formatters/iban/createIbanFormatter"
+
+describe("isValidIbanChecksum", () => {
+  it("validates the ISO 7064 mod-97 checksum", () => {
+    expect(isValidIbanChecksum("GB82WEST12345698765432")).toBe(true)
+    expect(isValidIbanChecksum("GB83WEST12345698765432")).toBe(false)
+  })
+})
+
+describe("createIbanFormatter", () => {
+  const formatter = createIbanFormatter()
+
+  it("uppercases and groups in blocks of four", () => {
+    const result = formatter.parse("gb82 west1234-5698765432")
+    expect(result.text).toBe("GB82 WEST 1234 5698 7654 32")
+    expect(result.value).toBe("GB82WEST12345698765432")
+    expect(result.error).toBeNull()
+    expect(formatter.format("DE89370400440532013000").text).toBe("DE89 3704 0044 0532 0130 00")
+  })
+
+  it("caps the length per country", () => {
+    expect(formatter.parse("NO9386011117947999").value).toBe("NO9386011117947")
+  })
+
+  it("reports incomplete, unsupported and invalid IBANs", () => {
+    expect(formatter.parse("DE89 3704").error).toBe("IBAN is incomplete")
+    expect(formatter.parse("ZZ12 3456").error).toBe("Unsupported IBAN country")
+    expect(formatter.parse("12").error).toBe("Unsupported IBAN country")
+    expect(formatter.parse("DE88370400440532013000").error).toBe("Invalid IBAN checksum")
+  })
+
+  it("restricts accepted countries", () => {
+    const sepaOnly = createIbanFormatter({ countries: ["DE", "FR"] })
+    expect(sepaOnly.parse("GB82WEST12345698765432").error).toBe("IBANs from GB are not accepted")
+    expect(sepaOnly.parse("DE89370400440532013000").error).toBeNull()
+  })
+})
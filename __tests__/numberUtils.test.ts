@@ -0,0 +1,44 @@
+import { formatNumber } from "../src/core/number"
+import { createNumberFormatter } from "../src/formatters/number/createNumberFormatter"
+
+describe("formatNumber", () => {
+  it("formats decimals with the resolved fraction digits", () => {
+    expect(formatNumber(1234.5, { locale: "en-US" })).toBe("1,234.50")
+    expect(formatNumber(1234.5, { locale: "en-US", useGrouping: false })).toBe("1234.50")
+  })
+
+  it("formats units", () => {
+    expect(formatNumber(12.5, { locale: "en-US", unit: "kilogram" })).toBe("12.50 kg")
+    const long = formatNumber(3, {
+      locale: "en-US",
+      unit: "kilometer",
+      unitDisplay: "long",
+      minimumFractionDigits: 0,
+    })
+    expect(long).toBe("3 kilometers")
+  })
+
+  it("lets Intl pick fraction digits for compact notation", () => {
+    expect(formatNumber(1234567, { locale: "en-US", notation: "compact" })).toBe("1.2M")
+    const long = formatNumber(1234567, { locale: "en-US", notation: "compact", compactDisplay: "long" })
+    expect(long).toBe("1.2 million")
+  })
+
+  it("returns an empty string for null values", () => {
+    expect(formatNumber(null)).toBe("")
+  })
+})
+
+describe("createNumberFormatter", () => {
+  it("parses digits and formats with the unit", () => {
+    const formatter = createNumberFormatter({ locale: "en-US", unit: "liter", fractionDigits: 1 })
+    expect(formatter.parse("125").value).toBe(12.5)
+    expect(formatter.format(12.5).text).toBe("12.5 L")
+  })
+
+  it("shares maxDigits and bound validation with currency", () => {
+    const formatter = createNumberFormatter({ fractionDigits: 0, maxDigits: 3, maximumValue: 500 })
+    expect(formatter.parse("1234").error).toBe("Maximum digits is 3")
+    expect(formatter.parse("900").value).toBe(500)
+  })
+})
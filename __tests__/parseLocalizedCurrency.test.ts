@@ -0,0 +1,57 @@
+import { parseLocalizedCurrency } from "../src/core/parseLocalizedCurrency"
+
+describe("parseLocalizedCurrency", () => {
+  it("reads amounts written in another locale's style", () => {
+    expect(parseLocalizedCurrency("1.234,56 €", { locale: "en-US", currency: "USD" })).toEqual({
+      value: 1234.56,
+      decimal: "1234.56",
+      error: null,
+    })
+    expect(parseLocalizedCurrency("€1,234.56", { locale: "de-DE", currency: "EUR" }).decimal).toBe(
+      "1234.56"
+    )
+  })
+
+  it("uses the locale's separators and spaces", () => {
+    expect(parseLocalizedCurrency("1\u202f234,56", { locale: "fr-FR" }).decimal).toBe("1234.56")
+    expect(
+      parseLocalizedCurrency("1\u00a0234\u00a0€", { locale: "fr-FR", currency: "EUR" }).value
+    ).toBe(1234)
+    expect(parseLocalizedCurrency("CHF 1’234.50", { locale: "de-CH", currency: "CHF" }).value).toBe(
+      1234.5
+    )
+    expect(parseLocalizedCurrency("1.234", { locale: "de-DE" }).value).toBe(1234)
+    expect(parseLocalizedCurrency("1,234", { locale: "en-US" }).value).toBe(1234)
+    expect(parseLocalizedCurrency("12,5", { locale: "en-US" }).value).toBe(12.5)
+  })
+
+  it("reads negatives from minus signs and accounting parentheses", () => {
+    expect(parseLocalizedCurrency("(1,234.56)", { locale: "en-US", currency: "USD" }).decimal).toBe(
+      "-1234.56"
+    )
+    expect(parseLocalizedCurrency("$(12.00)", { locale: "en-US", currency: "USD" }).decimal).toBe(
+      "-12.00"
+    )
+    expect(parseLocalizedCurrency("-$5", { locale: "en-US", currency: "USD" }).value).toBe(-5)
+    expect(parseLocalizedCurrency("−7,5", { locale: "sv-SE" }).value).toBe(-7.5)
+  })
+
+  it("maps localized digits", () => {
+    expect(parseLocalizedCurrency("١٬٢٣٤٫٥٦", { locale: "ar-EG" }).decimal).toBe("1234.56")
+  })
+
+  it("reports ambiguous and invalid amounts", () => {
+    expect(parseLocalizedCurrency("1.234", { locale: "fr-FR" })).toEqual({
+      value: null,
+      decimal: null,
+      error: "Ambiguous decimal separator",
+    })
+    expect(parseLocalizedCurrency("1,23,4", { locale: "en-US" }).error).toBe("Invalid amount")
+    expect(parseLocalizedCurrency("twelve", { locale: "en-US" }).error).toBe("Invalid amount")
+    expect(parseLocalizedCurrency("  ", { locale: "en-US" })).toEqual({
+      value: null,
+      decimal: null,
+      error: null,
+    })
+  })
+})
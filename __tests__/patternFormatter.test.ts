@@ -0,0 +1,62 @@
+import { createPatternFormatter } from "../src/formatters/pattern/createPatternFormatter"
+
+describe("createPatternFormatter", () => {
+  const phone = createPatternFormatter("(999) 999-9999")
+
+  it("inserts literals as the user types", () => {
+    expect(phone.format("5").text).toBe("(5")
+    expect(phone.format("555").text).toBe("(555")
+    expect(phone.format("5551").text).toBe("(555) 1")
+    expect(phone.format("5551234567").text).toBe("(555) 123-4567")
+  })
+
+  it("exposes the unmasked characters as rawValue", () => {
+    const result = phone.parse("(555) 123-4567")
+    expect(result.value).toBe("5551234567")
+    expect(result.rawValue).toBe("5551234567")
+    expect(result.error).toBeNull()
+  })
+
+  it("accepts pasted text without literals and drops invalid or extra characters", () => {
+    expect(phone.parse("555x123 45678").rawValue).toBe("5551234567")
+  })
+
+  it("re-aligns after a digit is inserted in the middle", () => {
+    expect(phone.parse("(5595) 123-4567").rawValue).toBe("5595123456")
+  })
+
+  it("reports incomplete input and returns null for empty input", () => {
+    expect(phone.parse("(555) 12").error).toBe("Value is incomplete")
+    expect(phone.parse("")).toEqual({ value: null, rawValue: "" })
+  })
+
+  it("supports letter, alphanumeric and optional slots", () => {
+    const plate = createPatternFormatter("AAA-999?", {
+      transform: (char) => char.toUpperCase(),
+    })
+    expect(plate.parse("abc12").value).toBe("ABC12")
+    expect(plate.parse("abc12").error).toBeNull()
+    expect(plate.parse("ab").error).toBe("Value is incomplete")
+
+    const code = createPatternFormatter("**-**")
+    expect(code.parse("a1b2").value).toBe("a1b2")
+    expect(code.format("a1b2").text).toBe("a1-b2")
+  })
+
+  it("keeps escaped definition characters as literals", () => {
+    const formatter = createPatternFormatter("\\9 999")
+    expect(formatter.format("123").text).toBe("9 123")
+    expect(formatter.parse("9 123").rawValue).toBe("123")
+  })
+
+  it("supports custom definitions and validation", () => {
+    const hex = createPatternFormatter("#HHHHHH", {
+      definitions: { H: /[0-9A-F]/ },
+      transform: (char) => char.toUpperCase(),
+      validate: (value) => (value === "000000" ? "Black is not allowed" : null),
+    })
+    expect(hex.parse("ff00aa").value).toBe("FF00AA")
+    expect(hex.format("FF00AA").text).toBe("#FF00AA")
+    expect(hex.parse("000000").error).toBe("Black is not allowed")
+  })
+})
@@ -0,0 +1,46 @@
+import { formatPercent } from "../src/core/percent"
+import { createPercentFormatter } from "../src/formatters/percent/createPercentFormatter"
+
+describe("formatPercent", () => {
+  it("formats ratios by default", () => {
+    expect(formatPercent(0.125, { locale: "en-US", minimumFractionDigits: 0 })).toBe("12.5%")
+  })
+
+  it("formats percent points when valueScale is 'percent'", () => {
+    expect(formatPercent(12.5, { locale: "en-US", valueScale: "percent", fractionDigits: 1 })).toBe("12.5%")
+  })
+
+  it("returns an empty string for null values", () => {
+    expect(formatPercent(null)).toBe("")
+  })
+})
+
+describe("createPercentFormatter", () => {
+  it("parses typed percent points into a ratio", () => {
+    const formatter = createPercentFormatter({ locale: "en-US", fractionDigits: 1 })
+    const result = formatter.parse("12.5")
+    expect(result.value).toBe(0.125)
+    expect(formatter.format(0.125).text).toBe("12.5%")
+  })
+
+  it("keeps percent points when valueScale is 'percent'", () => {
+    const formatter = createPercentFormatter({
+      locale: "en-US",
+      valueScale: "percent",
+      fractionDigits: 1,
+    })
+    expect(formatter.parse("12.5").value).toBe(12.5)
+  })
+
+  it("clamps to bounds expressed in value units", () => {
+    const formatter = createPercentFormatter({
+      locale: "en-US",
+      valueScale: "percent",
+      fractionDigits: 0,
+      minimumValue: 0,
+      maximumValue: 100,
+    })
+    expect(formatter.parse("150").value).toBe(100)
+    expect(formatter.format(250).text).toBe("100%")
+  })
+})
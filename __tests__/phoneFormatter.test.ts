@@ -0,0 +1,80 @@
+import { createPhoneFormatter } from "../src/formatters/phone/createPhoneFormatter"
+
+describe("createPhoneFormatter", () => {
+  const us = createPhoneFormatter({ country: "US" })
+
+  it("formats national numbers as the user types", () => {
+    expect(us.parse("555").text).toBe("(555")
+    expect(us.parse("5551234").text).toBe("(555) 123-4")
+    expect(us.parse("5551234567").text).toBe("(555) 123-4567")
+  })
+
+  it("exposes E.164 as value and its digits as rawValue", () => {
+    const result = us.parse("(555) 123-4567")
+    expect(result.value).toBe("+15551234567")
+    expect(result.rawValue).toBe("15551234567")
+    expect(result.error).toBeNull()
+    expect(us.format("+15551234567")).toEqual({
+      text: "(555) 123-4567",
+      rawValue: "15551234567",
+    })
+  })
+
+  it("reports numbers that are too short or too long", () => {
+    expect(us.parse("555123").error).toBe("Phone number is too short")
+
+    const tooLong = us.parse("555123456789")
+    expect(tooLong.error).toBe("Phone number is too long")
+    expect(tooLong.value).toBe("+15551234567")
+  })
+
+  it("accepts pasted international numbers", () => {
+    const result = us.parse("+44 7911 123456")
+    expect(result.value).toBe("+447911123456")
+    expect(result.text).toBe("+44 7911 123456")
+    expect(result.error).toBeNull()
+    expect(us.format("+33612345678").text).toBe("+33 6 12 34 56 78")
+  })
+
+  it("keeps a lone '+' so international numbers can be typed", () => {
+    expect(us.parse("+")).toEqual({ value: null, rawValue: "", text: "+" })
+    expect(us.parse("+999 1234").error).toBe("Unknown country code")
+  })
+
+  it("keeps a typed dial code or trunk prefix before any national digit", () => {
+    expect(us.parse("+1").text).toBe("+1")
+    expect(us.parse("+44").text).toBe("+44")
+
+    const gb = createPhoneFormatter({ country: "GB" })
+    expect(gb.parse("0")).toEqual({ value: null, rawValue: "", text: "0" })
+    expect(gb.parse("07").text).toBe("07")
+    expect(gb.parse("+44").text).toBe("+44")
+    expect(gb.parse("+447").text).toBe("+44 7")
+  })
+
+  it("keeps a number typed with '+' in international form for the field's own country", () => {
+    const gb = createPhoneFormatter({ country: "GB" })
+    expect(gb.parse("+447911123456").text).toBe("+44 7911 123456")
+    expect(gb.parse("+44 (0)7911 123456").text).toBe("+44 7911 123456")
+    expect(gb.format("+447911123456").text).toBe("07911 123456")
+  })
+
+  it("handles trunk prefixes and length-dependent patterns", () => {
+    const gb = createPhoneFormatter({ country: "GB" })
+    expect(gb.parse("07911123456").text).toBe("07911 123456")
+    expect(gb.parse("07911123456").value).toBe("+447911123456")
+    expect(gb.parse("+44 (0)7911 123456").value).toBe("+447911123456")
+
+    const br = createPhoneFormatter({ country: "BR" })
+    expect(br.parse("1112345678").text).toBe("(11) 1234-5678")
+    expect(br.parse("11912345678").text).toBe("(11) 91234-5678")
+  })
+
+  it("runs custom validation on the E.164 value", () => {
+    const formatter = createPhoneFormatter({
+      country: "US",
+      validate: (value) => (value?.startsWith("+1900") ? "Premium numbers are not allowed" : null),
+    })
+    expect(formatter.parse("9005551234").error).toBe("Premium numbers are not allowed")
+  })
+})
@@ -0,0 +1,39 @@
+import { caretAfterEdit, isDigit, mapCaret, skipLiteralDeletion } from "../src/core/selection"
+
+describe("caretAfterEdit", () => {
+  it("places the caret after inserted or removed text", () => {
+    expect(caretAfterEdit("$12,345.67", { start: 2, end: 2 }, "$192,345.67")).toBe(3)
+    expect(caretAfterEdit("$12,345.67", { start: 3, end: 3 }, "$1,345.67")).toBe(2)
+    expect(caretAfterEdit("$12,345.67", { start: 1, end: 7 }, "$9.67")).toBe(2)
+  })
+})
+
+describe("mapCaret", () => {
+  it("keeps the caret after the same number of digits", () => {
+    expect(mapCaret("$192,345.67", 3, "$192,345.67", isDigit)).toBe(3)
+    expect(mapCaret("$2345.67", 2, "$2,345.67", isDigit)).toBe(2)
+    expect(mapCaret("$,234", 1, "$234", isDigit)).toBe(1)
+  })
+
+  it("moves past a separator the user just typed", () => {
+    expect(mapCaret("$1,234.", 7, "$1,234.", isDigit)).toBe(7)
+    expect(mapCaret("$12.34", 4, "$12.34", isDigit)).toBe(4)
+  })
+
+  it("jumps to the end when typing at the end", () => {
+    expect(mapCaret("4", 1, "04/", isDigit)).toBe(3)
+  })
+})
+
+describe("skipLiteralDeletion", () => {
+  it("removes the digit before a deleted separator", () => {
+    expect(skipLiteralDeletion("$12,345", "$12345", 3, isDigit)).toEqual({
+      text: "$1345",
+      caret: 2,
+    })
+  })
+
+  it("ignores deletions of significant characters", () => {
+    expect(skipLiteralDeletion("$12,345", "$1,345", 2, isDigit)).toBeNull()
+  })
+})
@@ -1,94 +1,108 @@
-import React, { useEffect, useState } from "react"
+import React, { useEffect } from "react"
+import { StyleProp, StyleSheet, Text, TextInputProps, TextStyle, View } from "react-native"
+import { FormatOn } from "../core/Formatter.types"
+import { FormatEngine } from "../core/builtinFormat"
 import {
-  Text,
-  TextInput,
-  TextInputProps,
-  View,
-  ViewStyle,
-  TextStyle,
-  StyleProp,
-  StyleSheet,
-} from "react-native"
-import { CurrencyFormatterMode } from "../core/currency"
+  CurrencyDisplay,
+  CurrencyEntryMode,
+  CurrencyFormatterMode,
+  CurrencySignDisplay,
+  CurrencySignOptions,
+} from "../core/currency"
+import { RateProvider } from "../core/exchangeRates"
+import { NumericValue, NumericValueType } from "../core/numericValue"
+import { AsyncValidator } from "../core/useAsyncValidation"
+import { ValidationError, ValidationMessages } from "../core/validation"
+import {
+  UseConvertedAmountResult,
+  convertedAmountLabel,
+  useConvertedAmount,
+} from "../hooks/useConvertedAmount"
 import { useCurrencyInput } from "../hooks/useCurrencyInput"
+import { InputField, InputFieldStyleProps } from "./InputField"
 
-export type CurrencyInputProps = Omit<
+export type CurrencyInputProps<T extends NumericValueType = "major"> = Omit<
   TextInputProps,
   "value" | "onChangeText" | "keyboardType"
-> & {
-  value: number | null
-  onChangeValue: (value: number | null) => void
-  onChangeText?: (formatted: string) => void
-  onChangeRawText?: (rawDigits: string) => void
-  currency: string
-  locale?: string
-  fractionDigits?: number
-  minimumFractionDigits?: number
-  maximumFractionDigits?: number
-  minimumValue?: number
-  maximumValue?: number
-  allowNegative?: boolean
-  maxDigits?: number
-  mask?: CurrencyFormatterMode
-  validate?: (value: number | null) => string | null
-  containerStyle?: StyleProp<ViewStyle>
-  inputStyle?: StyleProp<TextStyle>
-  error?: string | null
-  onValidationError?: (error: string | null) => void
-  showErrorText?: boolean
-  errorTextStyle?: StyleProp<TextStyle>
-  errorContainerStyle?: StyleProp<ViewStyle>
-  keyboardType?: TextInputProps["keyboardType"]
-  label?: string
-  floatingLabel?: boolean
-  labelStyle?: StyleProp<TextStyle>
-  labelContainerStyle?: StyleProp<ViewStyle>
-  inputContainerStyle?: StyleProp<ViewStyle>
-  inputContainerFocusedStyle?: StyleProp<ViewStyle>
-  inputContainerErrorStyle?: StyleProp<ViewStyle>
-  defaultBorderColor?: string
-  focusBorderColor?: string
-  errorBorderColor?: string
-  labelBackgroundColor?: string
-}
+> &
+  InputFieldStyleProps & {
+    value: NumericValue<T> | null
+    onChangeValue: (value: NumericValue<T> | null) => void
+    onChangeText?: (formatted: string) => void
+    onChangeRawText?: (rawDigits: string) => void
+    currency: string
+    currencyDisplay?: CurrencyDisplay
+    engine?: FormatEngine
+    locale?: string
+    fractionDigits?: number
+    minimumFractionDigits?: number
+    maximumFractionDigits?: number
+    currencySign?: CurrencySignOptions["currencySign"]
+    signDisplay?: CurrencySignDisplay
+    negativeTemplate?: string
+    minimumValue?: NumericValue<T>
+    maximumValue?: NumericValue<T>
+    allowNegative?: boolean
+    maxDigits?: number
+    mask?: CurrencyFormatterMode
+    entryMode?: CurrencyEntryMode
+    valueType?: T
+    validate?: (value: NumericValue<T> | null) => string | null
+    messages?: ValidationMessages
+    validateAsync?: AsyncValidator<NumericValue<T>>
+    validateDebounce?: number
+    formatOn?: FormatOn
+    onCommit?: (value: NumericValue<T> | null) => void
+    error?: string | null
+    onValidationError?: (error: string | null) => void
+    onValidationErrors?: (errors: ValidationError[]) => void
+    keyboardType?: TextInputProps["keyboardType"]
+    convertTo?: string
+    rateProvider?: RateProvider
+    staleAfter?: number
+    convertedTextStyle?: StyleProp<TextStyle>
+    formatConvertedLabel?: (converted: UseConvertedAmountResult<T>) => string
+  }
 
-export function CurrencyInput(props: CurrencyInputProps) {
+export function CurrencyInput<T extends NumericValueType = "major">(props: CurrencyInputProps<T>) {
   const {
     value,
     onChangeValue,
     onChangeText,
     onChangeRawText,
     currency,
+    currencyDisplay,
+    engine,
     locale,
     fractionDigits,
     minimumFractionDigits,
     maximumFractionDigits,
+    currencySign,
+    signDisplay,
+    negativeTemplate,
     minimumValue,
     maximumValue,
     allowNegative,
     maxDigits,
     mask,
+    entryMode,
+    valueType,
     validate,
-    containerStyle,
-    inputStyle,
+    messages,
+    validateAsync,
+    validateDebounce,
+    formatOn,
+    onCommit,
     error: errorProp,
     onValidationError,
-    showErrorText,
-    errorTextStyle,
-    errorContainerStyle,
+    onValidationErrors,
     keyboardType,
-    label,
-    floatingLabel = true,
-    labelStyle,
-    labelContainerStyle,
-    inputContainerStyle,
-    inputContainerFocusedStyle,
-    inputContainerErrorStyle,
-    defaultBorderColor = "#ccc",
-    focusBorderColor = "#4c6fff",
-    errorBorderColor = "#d14343",
-    labelBackgroundColor = "white",
-    ...textInputProps
+    convertTo,
+    rateProvider,
+    staleAfter,
+    convertedTextStyle,
+    formatConvertedLabel,
+    ...fieldProps
   } = props
 
   const {
@@ -96,20 +110,38 @@ export function CurrencyInput(props: CurrencyInputProps) {
     text,
     rawDigits,
     error,
+    errors,
+    validating,
+    selection,
     handleChangeText,
+    handleSelectionChange,
+    handleFocus,
+    commit,
   } = useCurrencyInput({
     value,
     currency,
+    currencyDisplay,
+    engine,
     locale,
     fractionDigits,
     minimumFractionDigits,
     maximumFractionDigits,
+    currencySign,
+    signDisplay,
+    negativeTemplate,
     minimumValue,
     maximumValue,
     allowNegative,
     maxDigits,
     mask,
+    entryMode,
+    valueType,
     validate,
+    messages,
+    validateAsync,
+    validateDebounce,
+    formatOn,
+    onCommit,
   })
 
   useEffect(() => {
@@ -136,114 +168,77 @@ export function CurrencyInput(props: CurrencyInputProps) {
     }
   }, [effectiveError, onValidationError])
 
-  const [focused, setFocused] = useState(false)
-  const shouldFloat = floatingLabel && (focused || (text?.length ?? 0) > 0)
-  const containerBorderColor = effectiveError
-    ? errorBorderColor
-    : focused
-      ? focusBorderColor
-      : defaultBorderColor
+  useEffect(() => {
+    if (onValidationErrors) {
+      onValidationErrors(errors)
+    }
+  }, [errors, onValidationErrors])
+
+  const converted = useConvertedAmount({
+    value: nextValue,
+    valueType,
+    from: currency,
+    fromFractionOptions: { fractionDigits, minimumFractionDigits, maximumFractionDigits },
+    to: convertTo,
+    rateProvider,
+    staleAfter,
+    locale,
+    currencyDisplay,
+    engine,
+  })
+  const convertedLabel = formatConvertedLabel
+    ? formatConvertedLabel(converted)
+    : convertedAmountLabel(converted, locale)
 
-  const effectivePlaceholder = textInputProps.placeholder ?? label
-  const effectivePlaceholderColor =
-    textInputProps.placeholderTextColor ?? (shouldFloat ? "#999" : "#b0b0b0")
+  const field = (
+    <InputField
+      {...fieldProps}
+      text={text}
+      onChangeText={handleChangeText}
+      selection={fieldProps.selection ?? selection}
+      onSelectionChange={(e) => {
+        handleSelectionChange(e.nativeEvent.selection)
+        fieldProps.onSelectionChange?.(e)
+      }}
+      onFocus={(e) => {
+        handleFocus()
+        fieldProps.onFocus?.(e)
+      }}
+      onBlur={(e) => {
+        commit()
+        fieldProps.onBlur?.(e)
+      }}
+      onSubmitEditing={(e) => {
+        commit()
+        fieldProps.onSubmitEditing?.(e)
+      }}
+      error={effectiveError ?? null}
+      pending={validating}
+      keyboardType={keyboardType || "numeric"}
+    />
+  )
+
+  if (!convertTo) return field
 
   return (
-    <View style={containerStyle}>
-      <View
-        style={[
-          defaultStyles.inputContainer,
-          shouldFloat && label ? defaultStyles.withFloatingLabel : null,
-          { borderColor: containerBorderColor },
-          focused ? inputContainerFocusedStyle : null,
-          effectiveError ? inputContainerErrorStyle : null,
-          inputContainerStyle,
-        ]}
-      >
-        {label && shouldFloat ? (
-          <View
-            style={[
-              defaultStyles.floatingLabelContainer,
-              labelContainerStyle,
-              labelBackgroundColor ? { backgroundColor: labelBackgroundColor } : null,
-            ]}
-          >
-            <Text
-              style={[
-                defaultStyles.floatingLabelText,
-                labelStyle,
-              ]}
-            >
-              {label}
-            </Text>
-          </View>
-        ) : null}
-        <TextInput
-          {...textInputProps}
-          placeholder={effectivePlaceholder}
-          placeholderTextColor={effectivePlaceholderColor}
-          value={text}
-          onChangeText={handleChangeText}
-          keyboardType={keyboardType || "numeric"}
-          style={[
-            defaultStyles.input,
-            floatingLabel ? defaultStyles.inputWithFloatingLabel : null,
-            inputStyle,
-          ]}
-          onFocus={(e) => {
-            setFocused(true)
-            textInputProps.onFocus?.(e)
-          }}
-          onBlur={(e) => {
-            setFocused(false)
-            textInputProps.onBlur?.(e)
-          }}
-        />
-      </View>
-      {showErrorText && effectiveError ? (
-        <View style={[defaultStyles.errorContainer, errorContainerStyle]}>
-          <Text style={[defaultStyles.errorText, errorTextStyle]}>{effectiveError}</Text>
-        </View>
+    <View>
+      {field}
+      {convertedLabel ? (
+        <Text
+          testID={fieldProps.testID ? `${fieldProps.testID}-converted` : undefined}
+          style={[defaultStyles.convertedText, convertedTextStyle]}
+        >
+          {convertedLabel}
+        </Text>
       ) : null}
     </View>
   )
 }
 
 const defaultStyles = StyleSheet.create({
-  inputContainer: {
-    borderWidth: 1,
-    borderRadius: 8,
-    paddingHorizontal: 12,
-    paddingTop: 12,
-    paddingBottom: 10,
-  },
-  withFloatingLabel: {
-    paddingTop: 16,
-  },
-  floatingLabelContainer: {
-    position: "absolute",
-    top: -10,
-    left: 12,
-    paddingHorizontal: 6,
-  },
-  floatingLabelText: {
-    fontSize: 14,
-    color: "#444",
-    fontWeight: "600",
-  },
-  input: {
-    fontSize: 16,
-    padding: 0,
-    margin: 0,
-  },
-  inputWithFloatingLabel: {
-    paddingTop: 6,
-  },
-  errorContainer: {
-    marginTop: 6,
-  },
-  errorText: {
-    color: "#d14343",
+  convertedText: {
+    marginTop: 4,
     fontSize: 14,
+    color: "#666",
   },
 })
@@ -1,37 +1,120 @@
 import React from "react"
-import { Text, TextProps } from "react-native"
-import { DEFAULT_FRACTION_DIGITS, formatCurrency } from "../core/currency"
+import { StyleProp, Text, TextProps, TextStyle } from "react-native"
+import { FormatEngine } from "../core/builtinFormat"
+import {
+  CurrencyDisplay,
+  CurrencyNotationOptions,
+  CurrencySignDisplay,
+  CurrencySignOptions,
+  formatCurrency,
+  resolveFractionDigits,
+} from "../core/currency"
+import { RateProvider } from "../core/exchangeRates"
+import { NumericValue, NumericValueType, toFormattableValue } from "../core/numericValue"
+import {
+  UseConvertedAmountResult,
+  convertedAmountLabel,
+  useConvertedAmount,
+} from "../hooks/useConvertedAmount"
 
-export type CurrencyTextProps = TextProps & {
-  value: number | null
-  placeholder?: string
-  currency: string
-  locale?: string
-  fractionDigits?: number
-  minimumFractionDigits?: number
-  maximumFractionDigits?: number
-}
+export type CurrencyTextProps<T extends NumericValueType = "major"> = TextProps &
+  CurrencyNotationOptions & {
+    value: NumericValue<T> | null
+    valueType?: T
+    placeholder?: string
+    currency: string
+    currencyDisplay?: CurrencyDisplay
+    engine?: FormatEngine
+    locale?: string
+    fractionDigits?: number
+    minimumFractionDigits?: number
+    maximumFractionDigits?: number
+    currencySign?: CurrencySignOptions["currencySign"]
+    signDisplay?: CurrencySignDisplay
+    negativeTemplate?: string
+    fullValueAccessibilityLabel?: boolean
+    convertTo?: string
+    rateProvider?: RateProvider
+    staleAfter?: number
+    convertedTextStyle?: StyleProp<TextStyle>
+    formatConvertedLabel?: (converted: UseConvertedAmountResult<T>) => string
+  }
 
-export function CurrencyText(props: CurrencyTextProps) {
+export function CurrencyText<T extends NumericValueType = "major">(props: CurrencyTextProps<T>) {
   const {
     value,
+    valueType,
     placeholder = "",
     currency,
+    currencyDisplay,
+    engine,
     locale,
     fractionDigits,
     minimumFractionDigits,
     maximumFractionDigits,
+    currencySign,
+    signDisplay,
+    negativeTemplate,
+    notation,
+    compactDisplay,
+    compactThreshold,
+    fullValueAccessibilityLabel = false,
+    convertTo,
+    rateProvider,
+    staleAfter,
+    convertedTextStyle,
+    formatConvertedLabel,
     ...textProps
   } = props
 
-  const fraction = typeof fractionDigits === "number" ? fractionDigits : DEFAULT_FRACTION_DIGITS
-  const formatted = formatCurrency(value, {
+  const options = {
     currency,
+    currencyDisplay,
+    engine,
     locale,
-    fractionDigits: fraction,
+    fractionDigits,
     minimumFractionDigits,
     maximumFractionDigits,
+    currencySign,
+    signDisplay,
+    negativeTemplate,
+  }
+  const { maxFractionDigits } = resolveFractionDigits(options)
+  const amount = value == null ? null : toFormattableValue(value, valueType, maxFractionDigits)
+  const formatted = formatCurrency(amount, {
+    ...options,
+    notation,
+    compactDisplay,
+    compactThreshold,
+  })
+
+  const fullValue =
+    fullValueAccessibilityLabel && notation === "compact" ? formatCurrency(amount, options) : ""
+  const accessibilityLabel =
+    textProps.accessibilityLabel ?? (fullValue && fullValue !== formatted ? fullValue : undefined)
+
+  const converted = useConvertedAmount({
+    value,
+    valueType,
+    from: currency,
+    fromFractionOptions: { fractionDigits, minimumFractionDigits, maximumFractionDigits },
+    to: convertTo,
+    rateProvider,
+    staleAfter,
+    locale,
+    currencyDisplay,
+    engine,
   })
+  const convertedLabel = formatConvertedLabel
+    ? formatConvertedLabel(converted)
+    : convertedAmountLabel(converted, locale)
 
-  return <Text {...textProps}>{formatted || placeholder}</Text>
+  return (
+    <Text {...textProps} accessibilityLabel={accessibilityLabel}>
+      {formatted || placeholder}
+      {formatted && convertedLabel ? (
+        <Text style={convertedTextStyle}>{` ${convertedLabel}`}</Text>
+      ) : null}
+    </Text>
+  )
 }
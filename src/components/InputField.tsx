@@ -0,0 +1,211 @@
+import React, { ReactNode, useState } from "react"
+import {
+  ActivityIndicator,
+  Text,
+  TextInput,
+  TextInputProps,
+  View,
+  ViewStyle,
+  TextStyle,
+  StyleProp,
+  StyleSheet,
+} from "react-native"
+
+export type InputFieldStyleProps = {
+  containerStyle?: StyleProp<ViewStyle>
+  inputStyle?: StyleProp<TextStyle>
+  showErrorText?: boolean
+  errorTextStyle?: StyleProp<TextStyle>
+  errorContainerStyle?: StyleProp<ViewStyle>
+  label?: string
+  floatingLabel?: boolean
+  labelStyle?: StyleProp<TextStyle>
+  labelContainerStyle?: StyleProp<ViewStyle>
+  inputContainerStyle?: StyleProp<ViewStyle>
+  inputContainerFocusedStyle?: StyleProp<ViewStyle>
+  inputContainerErrorStyle?: StyleProp<ViewStyle>
+  inputContainerPendingStyle?: StyleProp<ViewStyle>
+  defaultBorderColor?: string
+  focusBorderColor?: string
+  errorBorderColor?: string
+  pendingBorderColor?: string
+  labelBackgroundColor?: string
+}
+
+export type InputFieldProps = Omit<TextInputProps, "value" | "onChangeText"> &
+  InputFieldStyleProps & {
+    text: string
+    onChangeText: (text: string) => void
+    error: string | null
+    pending?: boolean
+    accessory?: ReactNode
+  }
+
+export function InputField(props: InputFieldProps) {
+  const {
+    text,
+    onChangeText,
+    error,
+    pending = false,
+    containerStyle,
+    inputStyle,
+    showErrorText,
+    errorTextStyle,
+    errorContainerStyle,
+    label,
+    floatingLabel = true,
+    labelStyle,
+    labelContainerStyle,
+    inputContainerStyle,
+    inputContainerFocusedStyle,
+    inputContainerErrorStyle,
+    inputContainerPendingStyle,
+    defaultBorderColor = "#ccc",
+    focusBorderColor = "#4c6fff",
+    errorBorderColor = "#d14343",
+    pendingBorderColor = "#e0a100",
+    labelBackgroundColor = "white",
+    accessory,
+    ...textInputProps
+  } = props
+
+  const [focused, setFocused] = useState(false)
+  const shouldFloat = floatingLabel && (focused || (text?.length ?? 0) > 0)
+  const containerBorderColor = error
+    ? errorBorderColor
+    : pending
+      ? pendingBorderColor
+      : focused
+        ? focusBorderColor
+        : defaultBorderColor
+
+  const effectivePlaceholder = textInputProps.placeholder ?? label
+  const effectivePlaceholderColor =
+    textInputProps.placeholderTextColor ?? (shouldFloat ? "#999" : "#b0b0b0")
+
+  // The input always sits in the same row, with the indicator and accessory beside it, so the
+  // TextInput is not remounted (and does not lose focus) when either appears or goes away.
+  const pendingIndicator = (
+    <ActivityIndicator
+      testID={textInputProps.testID ? `${textInputProps.testID}-pending` : undefined}
+      size="small"
+      color={pendingBorderColor}
+      style={defaultStyles.pendingIndicator}
+    />
+  )
+
+  const input = (
+    <TextInput
+      {...textInputProps}
+      placeholder={effectivePlaceholder}
+      placeholderTextColor={effectivePlaceholderColor}
+      value={text}
+      onChangeText={onChangeText}
+      style={[
+        defaultStyles.input,
+        floatingLabel ? defaultStyles.inputWithFloatingLabel : null,
+        inputStyle,
+      ]}
+      onFocus={(e) => {
+        setFocused(true)
+        textInputProps.onFocus?.(e)
+      }}
+      onBlur={(e) => {
+        setFocused(false)
+        textInputProps.onBlur?.(e)
+      }}
+    />
+  )
+
+  return (
+    <View style={containerStyle}>
+      <View
+        style={[
+          defaultStyles.inputContainer,
+          shouldFloat && label ? defaultStyles.withFloatingLabel : null,
+          { borderColor: containerBorderColor },
+          focused ? inputContainerFocusedStyle : null,
+          error ? inputContainerErrorStyle : null,
+          pending ? inputContainerPendingStyle : null,
+          inputContainerStyle,
+        ]}
+      >
+        {label && shouldFloat ? (
+          <View
+            style={[
+              defaultStyles.floatingLabelContainer,
+              labelContainerStyle,
+              labelBackgroundColor ? { backgroundColor: labelBackgroundColor } : null,
+            ]}
+          >
+            <Text
+              style={[
+                defaultStyles.floatingLabelText,
+                labelStyle,
+              ]}
+            >
+              {label}
+            </Text>
+          </View>
+        ) : null}
+        <View style={defaultStyles.row}>
+          {input}
+          {pending ? pendingIndicator : null}
+          {accessory}
+        </View>
+      </View>
+      {showErrorText && error ? (
+        <View style={[defaultStyles.errorContainer, errorContainerStyle]}>
+          <Text style={[defaultStyles.errorText, errorTextStyle]}>{error}</Text>
+        </View>
+      ) : null}
+    </View>
+  )
+}
+
+const defaultStyles = StyleSheet.create({
+  inputContainer: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingTop: 12,
+    paddingBottom: 10,
+  },
+  withFloatingLabel: {
+    paddingTop: 16,
+  },
+  floatingLabelContainer: {
+    position: "absolute",
+    top: -10,
+    left: 12,
+    paddingHorizontal: 6,
+  },
+  floatingLabelText: {
+    fontSize: 14,
+    color: "#444",
+    fontWeight: "600",
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    padding: 0,
+    margin: 0,
+  },
+  inputWithFloatingLabel: {
+    paddingTop: 6,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  pendingIndicator: {
+    marginLeft: 8,
+  },
+  errorContainer: {
+    marginTop: 6,
+  },
+  errorText: {
+    color: "#d14343",
+    fontSize: 14,
+  },
+})
@@ -1,86 +1,77 @@
-import React, { useEffect } from "react"
-import {
-  Text,
-  TextInput,
-  TextInputProps,
-  View,
-  ViewStyle,
-  TextStyle,
-  StyleProp,
-  StyleSheet,
-} from "react-native"
-import { Formatter } from "../core/Formatter.types"
+import React, { useEffect, useRef } from "react"
+import { TextInputProps } from "react-native"
+import { FormatOn, Formatter } from "../core/Formatter.types"
+import { AsyncValidator } from "../core/useAsyncValidation"
 import { useMaskedInput } from "../core/useMaskedInput"
+import { InputField, InputFieldStyleProps } from "./InputField"
 
-export type MaskedInputProps<TValue> = Omit<
-  TextInputProps,
-  "value" | "onChangeText"
-> & {
-  value: TValue | null
-  onChangeValue: (value: TValue | null) => void
-  formatter: Formatter<TValue>
-  containerStyle?: StyleProp<ViewStyle>
-  inputStyle?: StyleProp<TextStyle>
-  error?: string | null
-  onValidationError?: (error: string | null) => void
-  showErrorText?: boolean
-  errorTextStyle?: StyleProp<TextStyle>
-  errorContainerStyle?: StyleProp<ViewStyle>
-  onChangeRawText?: (rawDigits: string) => void
-  onChangeRawValue?: (rawValue: string) => void
-  label?: string
-  floatingLabel?: boolean
-  labelStyle?: StyleProp<TextStyle>
-  labelContainerStyle?: StyleProp<ViewStyle>
-  inputContainerStyle?: StyleProp<ViewStyle>
-  inputContainerFocusedStyle?: StyleProp<ViewStyle>
-  inputContainerErrorStyle?: StyleProp<ViewStyle>
-  defaultBorderColor?: string
-  focusBorderColor?: string
-  errorBorderColor?: string
-  labelBackgroundColor?: string
-}
+export type MaskedInputProps<TValue> = Omit<TextInputProps, "value" | "onChangeText"> &
+  InputFieldStyleProps & {
+    value: TValue | null
+    onChangeValue: (value: TValue | null) => void
+    formatter: Formatter<TValue>
+    error?: string | null
+    onValidationError?: (error: string | null) => void
+    validateAsync?: AsyncValidator<TValue>
+    validateDebounce?: number
+    formatOn?: FormatOn
+    onCommit?: (value: TValue | null) => void
+    onChangeRawText?: (rawDigits: string) => void
+    onChangeRawValue?: (rawValue: string) => void
+    renderAccessory?: (state: {
+      value: TValue | null
+      rawValue: string
+      error: string | null
+      validating: boolean
+    }) => React.ReactNode
+  }
 
 export function MaskedInput<TValue>(props: MaskedInputProps<TValue>) {
   const {
     value: valueProp,
     onChangeValue,
     formatter,
-    containerStyle,
-    inputStyle,
     error: errorProp,
     onValidationError,
-    showErrorText,
-    errorTextStyle,
-  errorContainerStyle,
-  onChangeRawText,
-  onChangeRawValue,
-  keyboardType,
-  label,
-  floatingLabel = true,
-  labelStyle,
-  labelContainerStyle,
-  inputContainerStyle,
-  inputContainerFocusedStyle,
-  inputContainerErrorStyle,
-  defaultBorderColor = "#ccc",
-  focusBorderColor = "#4c6fff",
-  errorBorderColor = "#d14343",
-  labelBackgroundColor = "white",
-  ...textInputProps
-} = props
+    validateAsync,
+    validateDebounce,
+    formatOn,
+    onCommit,
+    onChangeRawText,
+    onChangeRawValue,
+    keyboardType,
+    renderAccessory,
+    ...fieldProps
+  } = props
+
+  const {
+    value,
+    text,
+    rawValue,
+    error,
+    validating,
+    selection,
+    handleChangeText,
+    handleSelectionChange,
+    commit,
+    setValue,
+  } = useMaskedInput<TValue>({
+    formatter,
+    initialValue: valueProp,
+    validateAsync,
+    validateDebounce,
+    formatOn,
+    onCommit,
+  })
 
-const { value, text, rawValue, error, handleChangeText, setValue } =
-    useMaskedInput<TValue>({
-      formatter,
-      initialValue: valueProp,
-    })
+  const valueRef = useRef(value)
+  valueRef.current = value
 
   useEffect(() => {
-    if (valueProp !== value) {
+    if (valueProp !== valueRef.current) {
       setValue(valueProp)
     }
-  }, [valueProp, value, setValue])
+  }, [valueProp, setValue])
 
   useEffect(() => {
     onChangeValue(value)
@@ -102,109 +93,35 @@ const { value, text, rawValue, error, handleChangeText, setValue } =
   }, [rawValue, onChangeRawText, onChangeRawValue])
 
   const effectiveError = errorProp ?? error
-
-  const [focused, setFocused] = React.useState(false)
-  const shouldFloat = floatingLabel && (focused || (text?.length ?? 0) > 0)
-
-  const containerBorderColor = effectiveError
-    ? errorBorderColor
-    : focused
-      ? focusBorderColor
-      : defaultBorderColor
-
-  const effectivePlaceholder = textInputProps.placeholder ?? label
-  const effectivePlaceholderColor =
-    textInputProps.placeholderTextColor ?? (shouldFloat ? "#999" : "#b0b0b0")
+  const accessory = renderAccessory?.({
+    value,
+    rawValue,
+    error: effectiveError ?? null,
+    validating,
+  })
 
   return (
-    <View style={containerStyle}>
-      <View
-        style={[
-          defaultStyles.inputContainer,
-          shouldFloat && label ? defaultStyles.withFloatingLabel : null,
-          { borderColor: containerBorderColor },
-          focused ? inputContainerFocusedStyle : null,
-          effectiveError ? inputContainerErrorStyle : null,
-          inputContainerStyle,
-        ]}
-      >
-        {label && shouldFloat ? (
-          <View
-            style={[
-              defaultStyles.floatingLabelContainer,
-              labelContainerStyle,
-              labelBackgroundColor ? { backgroundColor: labelBackgroundColor } : null,
-            ]}
-          >
-            <Text style={[defaultStyles.floatingLabelText, labelStyle]}>{label}</Text>
-          </View>
-        ) : null}
-        <TextInput
-          {...textInputProps}
-          placeholder={effectivePlaceholder}
-          placeholderTextColor={effectivePlaceholderColor}
-          value={text}
-          onChangeText={handleChangeText}
-          keyboardType={keyboardType || "numeric"}
-          style={[
-            defaultStyles.input,
-            floatingLabel ? defaultStyles.inputWithFloatingLabel : null,
-            inputStyle,
-          ]}
-          onFocus={(e) => {
-            setFocused(true)
-            textInputProps.onFocus?.(e)
-          }}
-          onBlur={(e) => {
-            setFocused(false)
-            textInputProps.onBlur?.(e)
-          }}
-        />
-      </View>
-      {showErrorText && effectiveError ? (
-        <View style={errorContainerStyle}>
-          <Text style={errorTextStyle}>{effectiveError}</Text>
-        </View>
-      ) : null}
-    </View>
+    <InputField
+      {...fieldProps}
+      text={text}
+      onChangeText={handleChangeText}
+      selection={fieldProps.selection ?? selection}
+      onSelectionChange={(e) => {
+        handleSelectionChange(e.nativeEvent.selection)
+        fieldProps.onSelectionChange?.(e)
+      }}
+      onBlur={(e) => {
+        commit()
+        fieldProps.onBlur?.(e)
+      }}
+      onSubmitEditing={(e) => {
+        commit()
+        fieldProps.onSubmitEditing?.(e)
+      }}
+      error={effectiveError ?? null}
+      pending={validating}
+      accessory={accessory}
+      keyboardType={keyboardType || "numeric"}
+    />
   )
 }
-
-const defaultStyles = StyleSheet.create({
-  inputContainer: {
-    borderWidth: 1,
-    borderRadius: 8,
-    paddingHorizontal: 12,
-    paddingTop: 12,
-    paddingBottom: 10,
-  },
-  withFloatingLabel: {
-    paddingTop: 16,
-  },
-  floatingLabelContainer: {
-    position: "absolute",
-    top: -10,
-    left: 12,
-    paddingHorizontal: 6,
-  },
-  floatingLabelText: {
-    fontSize: 14,
-    color: "#444",
-    fontWeight: "600",
-  },
-  input: {
-    fontSize: 16,
-    padding: 0,
-    margin: 0,
-  },
-  inputWithFloatingLabel: {
-    paddingTop: 6,
-  },
-  errorContainer: {
-    marginTop: 6,
-  },
-  errorText: {
-    color: "#d14343",
-    fontSize: 14,
-  },
-})
@@ -0,0 +1,292 @@
+import React, { ReactNode, useEffect, useState } from "react"
+import {
+  Pressable,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TextInputProps,
+  TextStyle,
+  View,
+  ViewStyle,
+} from "react-native"
+import { FormatOn } from "../core/Formatter.types"
+import { FormatEngine } from "../core/builtinFormat"
+import {
+  CurrencyDisplay,
+  CurrencyEntryMode,
+  CurrencyFormatterMode,
+  CurrencySignDisplay,
+  CurrencySignOptions,
+} from "../core/currency"
+import { NumericValue, NumericValueType } from "../core/numericValue"
+import { AsyncValidator } from "../core/useAsyncValidation"
+import { ValidationError, ValidationMessages } from "../core/validation"
+import { MoneyValue, useMoneyInput } from "../hooks/useMoneyInput"
+import { InputField, InputFieldStyleProps } from "./InputField"
+
+export type CurrencyPickerRenderProps = {
+  currency: string
+  currencies: string[]
+  onSelect: (currency: string) => void
+}
+
+export type MoneyInputProps<T extends NumericValueType = "major"> = Omit<
+  TextInputProps,
+  "value" | "onChangeText" | "keyboardType"
+> &
+  InputFieldStyleProps & {
+    value: MoneyValue<T> | null
+    onChangeValue: (value: MoneyValue<T>) => void
+    onChangeText?: (formatted: string) => void
+    currencies: string[]
+    defaultCurrency?: string
+    renderCurrencyPicker?: (props: CurrencyPickerRenderProps) => ReactNode
+    currencyButtonStyle?: StyleProp<ViewStyle>
+    currencyButtonTextStyle?: StyleProp<TextStyle>
+    currencyOptionStyle?: StyleProp<ViewStyle>
+    currencyOptionTextStyle?: StyleProp<TextStyle>
+    currencyDisplay?: CurrencyDisplay
+    engine?: FormatEngine
+    locale?: string
+    fractionDigits?: number
+    minimumFractionDigits?: number
+    maximumFractionDigits?: number
+    currencySign?: CurrencySignOptions["currencySign"]
+    signDisplay?: CurrencySignDisplay
+    negativeTemplate?: string
+    minimumValue?: NumericValue<T>
+    maximumValue?: NumericValue<T>
+    allowNegative?: boolean
+    maxDigits?: number
+    mask?: CurrencyFormatterMode
+    entryMode?: CurrencyEntryMode
+    valueType?: T
+    validate?: (value: NumericValue<T> | null) => string | null
+    messages?: ValidationMessages
+    validateAsync?: AsyncValidator<NumericValue<T>>
+    validateDebounce?: number
+    formatOn?: FormatOn
+    onCommit?: (value: MoneyValue<T>) => void
+    error?: string | null
+    onValidationError?: (error: string | null) => void
+    onValidationErrors?: (errors: ValidationError[]) => void
+    keyboardType?: TextInputProps["keyboardType"]
+  }
+
+export function MoneyInput<T extends NumericValueType = "major">(props: MoneyInputProps<T>) {
+  const {
+    value,
+    onChangeValue,
+    onChangeText,
+    currencies,
+    defaultCurrency,
+    renderCurrencyPicker,
+    currencyButtonStyle,
+    currencyButtonTextStyle,
+    currencyOptionStyle,
+    currencyOptionTextStyle,
+    currencyDisplay,
+    engine,
+    locale,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+    currencySign,
+    signDisplay,
+    negativeTemplate,
+    minimumValue,
+    maximumValue,
+    allowNegative,
+    maxDigits,
+    mask,
+    entryMode,
+    valueType,
+    validate,
+    messages,
+    validateAsync,
+    validateDebounce,
+    formatOn,
+    onCommit,
+    error: errorProp,
+    onValidationError,
+    onValidationErrors,
+    keyboardType,
+    ...fieldProps
+  } = props
+
+  const {
+    money,
+    text,
+    error,
+    errors,
+    validating,
+    selection,
+    setCurrency,
+    handleChangeText,
+    handleSelectionChange,
+    handleFocus,
+    commit,
+  } = useMoneyInput({
+    value,
+    currencies,
+    defaultCurrency,
+    currencyDisplay,
+    engine,
+    locale,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+    currencySign,
+    signDisplay,
+    negativeTemplate,
+    minimumValue,
+    maximumValue,
+    allowNegative,
+    maxDigits,
+    mask,
+    entryMode,
+    valueType,
+    validate,
+    messages,
+    validateAsync,
+    validateDebounce,
+    formatOn,
+    onCommit,
+  })
+
+  const [pickerOpen, setPickerOpen] = useState(false)
+
+  useEffect(() => {
+    onChangeValue(money)
+  }, [money, onChangeValue])
+
+  useEffect(() => {
+    if (onChangeText) {
+      onChangeText(text)
+    }
+  }, [text, onChangeText])
+
+  const effectiveError = errorProp ?? error
+
+  useEffect(() => {
+    if (onValidationError) {
+      onValidationError(effectiveError ?? null)
+    }
+  }, [effectiveError, onValidationError])
+
+  useEffect(() => {
+    if (onValidationErrors) {
+      onValidationErrors(errors)
+    }
+  }, [errors, onValidationErrors])
+
+  const testID = fieldProps.testID ?? "money-input"
+
+  const selectCurrency = (currency: string) => {
+    setPickerOpen(false)
+    setCurrency(currency)
+  }
+
+  const accessory = renderCurrencyPicker ? (
+    renderCurrencyPicker({ currency: money.currency, currencies, onSelect: selectCurrency })
+  ) : (
+    <Pressable
+      testID={`${testID}-currency`}
+      accessibilityRole="button"
+      accessibilityState={{ expanded: pickerOpen }}
+      onPress={() => setPickerOpen((open) => !open)}
+      style={[defaultStyles.currencyButton, currencyButtonStyle]}
+    >
+      <Text style={[defaultStyles.currencyButtonText, currencyButtonTextStyle]}>
+        {money.currency}
+      </Text>
+    </Pressable>
+  )
+
+  return (
+    <View>
+      <InputField
+        {...fieldProps}
+        text={text}
+        onChangeText={handleChangeText}
+        selection={fieldProps.selection ?? selection}
+        onSelectionChange={(e) => {
+          handleSelectionChange(e.nativeEvent.selection)
+          fieldProps.onSelectionChange?.(e)
+        }}
+        onFocus={(e) => {
+          handleFocus()
+          fieldProps.onFocus?.(e)
+        }}
+        onBlur={(e) => {
+          commit()
+          fieldProps.onBlur?.(e)
+        }}
+        onSubmitEditing={(e) => {
+          commit()
+          fieldProps.onSubmitEditing?.(e)
+        }}
+        error={effectiveError ?? null}
+        pending={validating}
+        keyboardType={keyboardType || "numeric"}
+        accessory={accessory}
+      />
+      {pickerOpen && !renderCurrencyPicker ? (
+        <View style={defaultStyles.currencyList}>
+          {currencies.map((currency) => (
+            <Pressable
+              key={currency}
+              testID={`${testID}-currency-${currency}`}
+              accessibilityRole="button"
+              accessibilityState={{ selected: currency === money.currency }}
+              onPress={() => selectCurrency(currency)}
+              style={[defaultStyles.currencyOption, currencyOptionStyle]}
+            >
+              <Text
+                style={[
+                  defaultStyles.currencyOptionText,
+                  currency === money.currency ? defaultStyles.currencyOptionSelected : null,
+                  currencyOptionTextStyle,
+                ]}
+              >
+                {currency}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+    </View>
+  )
+}
+
+const defaultStyles = StyleSheet.create({
+  currencyButton: {
+    marginLeft: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: "#f0f2f7",
+  },
+  currencyButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#444",
+  },
+  currencyList: {
+    marginTop: 4,
+    borderWidth: 1,
+    borderRadius: 8,
+    borderColor: "#ccc",
+  },
+  currencyOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  currencyOptionText: {
+    fontSize: 16,
+    color: "#444",
+  },
+  currencyOptionSelected: {
+    fontWeight: "600",
+  },
+})
@@ -0,0 +1,45 @@
+import React from "react"
+import { Text, TextProps } from "react-native"
+import { NumberNotationOptions, NumberStyleOptions, formatNumber } from "../core/number"
+
+export type NumberTextProps = TextProps &
+  NumberStyleOptions &
+  NumberNotationOptions & {
+    value: number | null
+    placeholder?: string
+    locale?: string
+    fractionDigits?: number
+    minimumFractionDigits?: number
+    maximumFractionDigits?: number
+  }
+
+export function NumberText(props: NumberTextProps) {
+  const {
+    value,
+    placeholder = "",
+    locale,
+    unit,
+    unitDisplay,
+    useGrouping,
+    notation,
+    compactDisplay,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+    ...textProps
+  } = props
+
+  const formatted = formatNumber(value, {
+    locale,
+    unit,
+    unitDisplay,
+    useGrouping,
+    notation,
+    compactDisplay,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+  })
+
+  return <Text {...textProps}>{formatted || placeholder}</Text>
+}
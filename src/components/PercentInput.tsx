@@ -0,0 +1,129 @@
+import React, { useEffect } from "react"
+import { TextInputProps } from "react-native"
+import { PercentFormatterMode, PercentValueScale } from "../core/percent"
+import { ValidationError, ValidationMessages } from "../core/validation"
+import { usePercentInput } from "../hooks/usePercentInput"
+import { InputField, InputFieldStyleProps } from "./InputField"
+
+export type PercentInputProps = Omit<
+  TextInputProps,
+  "value" | "onChangeText" | "keyboardType"
+> &
+  InputFieldStyleProps & {
+    value: number | null
+    onChangeValue: (value: number | null) => void
+    onChangeText?: (formatted: string) => void
+    onChangeRawText?: (rawDigits: string) => void
+    valueScale?: PercentValueScale
+    locale?: string
+    fractionDigits?: number
+    minimumFractionDigits?: number
+    maximumFractionDigits?: number
+    minimumValue?: number
+    maximumValue?: number
+    allowNegative?: boolean
+    maxDigits?: number
+    mask?: PercentFormatterMode
+    validate?: (value: number | null) => string | null
+    messages?: ValidationMessages
+    error?: string | null
+    onValidationError?: (error: string | null) => void
+    onValidationErrors?: (errors: ValidationError[]) => void
+    keyboardType?: TextInputProps["keyboardType"]
+  }
+
+export function PercentInput(props: PercentInputProps) {
+  const {
+    value,
+    onChangeValue,
+    onChangeText,
+    onChangeRawText,
+    valueScale,
+    locale,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+    minimumValue,
+    maximumValue,
+    allowNegative,
+    maxDigits,
+    mask,
+    validate,
+    messages,
+    error: errorProp,
+    onValidationError,
+    onValidationErrors,
+    keyboardType,
+    ...fieldProps
+  } = props
+
+  const {
+    value: nextValue,
+    text,
+    rawDigits,
+    error,
+    errors,
+    selection,
+    handleChangeText,
+    handleSelectionChange,
+  } = usePercentInput({
+    value,
+    valueScale,
+    locale,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+    minimumValue,
+    maximumValue,
+    allowNegative,
+    maxDigits,
+    mask,
+    validate,
+    messages,
+  })
+
+  useEffect(() => {
+    onChangeValue(nextValue)
+  }, [nextValue, onChangeValue])
+
+  useEffect(() => {
+    if (onChangeText) {
+      onChangeText(text)
+    }
+  }, [text, onChangeText])
+
+  useEffect(() => {
+    if (onChangeRawText) {
+      onChangeRawText(rawDigits)
+    }
+  }, [rawDigits, onChangeRawText])
+
+  const effectiveError = errorProp ?? error
+
+  useEffect(() => {
+    if (onValidationError) {
+      onValidationError(effectiveError ?? null)
+    }
+  }, [effectiveError, onValidationError])
+
+  useEffect(() => {
+    if (onValidationErrors) {
+      onValidationErrors(errors)
+    }
+  }, [errors, onValidationErrors])
+
+  return (
+    <InputField
+      {...fieldProps}
+      text={text}
+      onChangeText={handleChangeText}
+      selection={fieldProps.selection ?? selection}
+      onSelectionChange={(e) => {
+        handleSelectionChange(e.nativeEvent.selection)
+        fieldProps.onSelectionChange?.(e)
+      }}
+      error={effectiveError ?? null}
+      keyboardType={keyboardType || "numeric"}
+    />
+  )
+}
@@ -0,0 +1,36 @@
+import React from "react"
+import { Text, TextProps } from "react-native"
+import { PercentValueScale, formatPercent } from "../core/percent"
+
+export type PercentTextProps = TextProps & {
+  value: number | null
+  placeholder?: string
+  valueScale?: PercentValueScale
+  locale?: string
+  fractionDigits?: number
+  minimumFractionDigits?: number
+  maximumFractionDigits?: number
+}
+
+export function PercentText(props: PercentTextProps) {
+  const {
+    value,
+    placeholder = "",
+    valueScale,
+    locale,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+    ...textProps
+  } = props
+
+  const formatted = formatPercent(value, {
+    valueScale,
+    locale,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+  })
+
+  return <Text {...textProps}>{formatted || placeholder}</Text>
+}
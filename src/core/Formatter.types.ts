@@ -1,3 +1,8 @@
+import { ValidationError } from "./validation"
+
+// "blur" leaves the text alone while the user types and formats it on blur or submit.
+export type FormatOn = "change" | "blur"
+
 export type FormatResult = {
   text: string
   rawValue: string
@@ -7,6 +12,8 @@ export type ParseResult<TValue> = {
   value: TValue | null
   rawValue: string
   error?: string | null
+  errors?: ValidationError[]
+  text?: string
 }
 
 export interface Formatter<TValue> {
@@ -0,0 +1,163 @@
+import { parseDecimalString, roundDecimalParts } from "./decimalFormat"
+import { LocaleNumberData, enUS } from "./locales"
+
+export type FormatEngine = "intl" | "builtin"
+
+export type BuiltinNumberParts = {
+  text: string
+  isNegative: boolean
+  isZero: boolean
+}
+
+const localeData = new Map<string, LocaleNumberData>([[enUS.locale.toLowerCase(), enUS]])
+const intlChecks = new Map<string, boolean>()
+let checkedNumberFormat: unknown = null
+
+const SPACES = /[ \u00a0\u202f]/g
+
+export function registerLocaleData(...data: LocaleNumberData[]): void {
+  for (const entry of data) {
+    if (!entry.locale || !entry.decimal) {
+      throw new Error(`Invalid locale data: ${entry.locale}`)
+    }
+    localeData.set(entry.locale.toLowerCase(), entry)
+  }
+  intlChecks.clear()
+}
+
+// Exact tag first, then the language's main region ("de" -> "de-DE"), then any registered
+// locale of the same language.
+export function getLocaleData(locale: string | undefined): LocaleNumberData | null {
+  if (!locale) return null
+
+  const tag = locale.toLowerCase().replace(/_/g, "-")
+  const language = tag.split("-")[0]
+  const exact = localeData.get(tag) ?? localeData.get(`${language}-${language}`)
+  if (exact) return exact
+
+  for (const [key, data] of localeData) {
+    if (key.split("-")[0] === language) return data
+  }
+  return null
+}
+
+// Without an explicit engine, Intl is used unless it is missing, lacks formatToParts, or
+// disagrees with registered locale data about separators (a runtime without that locale).
+export function resolveFormatEngine(locale: string | undefined, engine?: FormatEngine) {
+  if (engine) return engine
+
+  const numberFormat = typeof Intl === "undefined" ? undefined : Intl.NumberFormat
+  if (numberFormat !== checkedNumberFormat) {
+    intlChecks.clear()
+    checkedNumberFormat = numberFormat
+  }
+
+  const key = locale ?? ""
+  let usable = intlChecks.get(key)
+  if (usable === undefined) {
+    usable = isIntlUsable(locale)
+    intlChecks.set(key, usable)
+  }
+
+  return usable ? "intl" : "builtin"
+}
+
+export function resolveLocaleData(locale: string | undefined): LocaleNumberData {
+  return getLocaleData(locale) ?? enUS
+}
+
+export function formatBuiltinNumber(
+  value: number | string,
+  data: LocaleNumberData,
+  minimumFractionDigits: number,
+  maximumFractionDigits: number
+): BuiltinNumberParts {
+  const decimal = typeof value === "number" ? numberToDecimal(value) : value.trim()
+  const parsed = parseDecimalString(decimal)
+  if (!parsed) return { text: "", isNegative: false, isZero: true }
+
+  const rounded = roundDecimalParts(parsed, maximumFractionDigits)
+  let fraction = rounded.fraction
+  while (fraction.length > minimumFractionDigits && fraction.endsWith("0")) {
+    fraction = fraction.slice(0, -1)
+  }
+
+  const integer = groupDigits(rounded.integer, data)
+  return {
+    text: fraction ? `${integer}${data.decimal}${fraction}` : integer,
+    isNegative: parsed.isNegative || Object.is(value, -0),
+    isZero: !/[1-9]/.test(`${rounded.integer}${rounded.fraction}`),
+  }
+}
+
+// Fills a currency pattern, putting a space between digits and a symbol that ends in a
+// letter ("USD 12.00") as Intl does.
+export function applyCurrencyPattern(
+  pattern: string,
+  number: string,
+  symbol: string,
+  data: LocaleNumberData
+): string {
+  const symbolIndex = pattern.indexOf("¤")
+  const numberIndex = pattern.indexOf("#")
+  const touchesNumber = Math.abs(symbolIndex - numberIndex) === 1
+  const edge = symbolIndex < numberIndex ? symbol.slice(-1) : symbol.charAt(0)
+  const spacedSymbol =
+    touchesNumber && /[A-Za-z]/.test(edge)
+      ? symbolIndex < numberIndex
+        ? `${symbol}\u00a0`
+        : `\u00a0${symbol}`
+      : symbol
+
+  return Array.from(pattern)
+    .map((char) => {
+      if (char === "¤") return spacedSymbol
+      if (char === "#") return number
+      if (char === "-") return data.minusSign
+      return char
+    })
+    .join("")
+}
+
+function isIntlUsable(locale: string | undefined) {
+  if (typeof Intl === "undefined" || typeof Intl.NumberFormat !== "function") return false
+
+  try {
+    const formatter = new Intl.NumberFormat(locale, { minimumFractionDigits: 1 })
+    if (typeof formatter.formatToParts !== "function") return false
+
+    const data = getLocaleData(locale)
+    if (!data) return true
+
+    const parts = formatter.formatToParts(1234567.5)
+    const find = (type: string) => parts.find((part) => part.type === type)?.value ?? ""
+    return (
+      find("decimal") === data.decimal &&
+      find("group").replace(SPACES, " ") === data.group.replace(SPACES, " ")
+    )
+  } catch (error) {
+    return false
+  }
+}
+
+function groupDigits(integer: string, data: LocaleNumberData) {
+  const [primary, secondary] = data.grouping
+  if (integer.length < primary + data.minimumGroupingDigits) return integer
+
+  const groups = [integer.slice(-primary)]
+  let rest = integer.slice(0, -primary)
+
+  while (rest.length > secondary) {
+    groups.unshift(rest.slice(-secondary))
+    rest = rest.slice(0, -secondary)
+  }
+
+  groups.unshift(rest)
+  return groups.join(data.group)
+}
+
+function numberToDecimal(value: number) {
+  const text = String(value)
+  if (!/e/i.test(text)) return text
+  return Math.abs(value) < 1 ? value.toFixed(20) : BigInt(Math.trunc(value)).toString()
+}
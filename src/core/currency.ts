@@ -1,23 +1,76 @@
 import { FormatResult } from "./Formatter.types"
+import {
+  FormatEngine,
+  applyCurrencyPattern,
+  formatBuiltinNumber,
+  resolveFormatEngine,
+  resolveLocaleData,
+} from "./builtinFormat"
+import { CurrencyInfo, getCurrencyExponent, getCurrencyInfo } from "./currencyRegistry"
+import { formatNumericValue, isNumericInput } from "./decimalFormat"
+import { getNumberFormat } from "./formatterCache"
 
 export type CurrencyFormatterMode = "currency" | "none"
 
-export type CurrencyCommonOptions = {
-  currency: string
+export type CurrencyEntryMode = "natural" | "cashRegister"
+
+export type NumberCommonOptions = {
   locale?: string
   fractionDigits?: number
   minimumFractionDigits?: number
   maximumFractionDigits?: number
 }
 
-export type CurrencyValidationOptions = {
+export type NumberValidationOptions = {
   minimumValue?: number
   maximumValue?: number
   allowNegative?: boolean
   maxDigits?: number
 }
 
-export type CurrencyFormattingOptions = CurrencyCommonOptions
+export type NumberParsingOptions = NumberCommonOptions &
+  NumberValidationOptions & {
+    currency?: string
+    isNegative?: boolean
+  }
+
+export type NumberValueFormatter = (
+  value: number | string | null,
+  fractionDigits: { minimumFractionDigits: number; maximumFractionDigits: number }
+) => string
+
+export type SignedDigits = {
+  digits: string
+  isNegative: boolean
+}
+
+export type CurrencyDisplay = "symbol" | "narrowSymbol" | "code" | "name"
+
+export type CurrencyCommonOptions = NumberCommonOptions & {
+  currency: string
+  currencyDisplay?: CurrencyDisplay
+  engine?: FormatEngine
+}
+
+export type CurrencyValidationOptions = NumberValidationOptions
+
+export type CurrencySignDisplay = "auto" | "always" | "exceptZero" | "negative" | "never"
+
+export type CurrencySignOptions = {
+  currencySign?: "standard" | "accounting"
+  signDisplay?: CurrencySignDisplay
+  negativeTemplate?: string
+}
+
+export type CurrencyNotationOptions = {
+  notation?: "standard" | "compact"
+  compactDisplay?: "short" | "long"
+  compactThreshold?: number
+}
+
+export type CurrencyFormattingOptions = CurrencyCommonOptions &
+  CurrencySignOptions &
+  CurrencyNotationOptions
 
 export type CurrencyParsingOptions = CurrencyCommonOptions &
   CurrencyValidationOptions & {
@@ -28,19 +81,41 @@ export const DEFAULT_FRACTION_DIGITS = 2
 
 const MIN_ZERO = 0
 
-const DECIMAL_PART = new Intl.NumberFormat(undefined, {
-  minimumFractionDigits: 1,
-  maximumFractionDigits: 1,
-})
-  .formatToParts(0.1)
-  .find((part) => part.type === "decimal")?.value
+const DEFAULT_DECIMAL_SEPARATOR = readDefaultDecimalSeparator()
 
-const DEFAULT_DECIMAL_SEPARATOR = DECIMAL_PART ?? "."
+const NEGATIVE_SIGN_DISPLAY = supportsNegativeSignDisplay()
 
 export function stripToDigits(input: string): string {
   return input.replace(/\D/g, "")
 }
 
+export function countMinusSigns(input: string): number {
+  return (input.match(/[-\u2212]/g) || []).length
+}
+
+// The literal text around the number in formatted output (symbols, codes, names, units),
+// so parsing does not mistake a "." in "Cg." or the hyphen in "US-Dollar" for input.
+export function formatAffixes(formatValue: NumberValueFormatter): string[] {
+  const affixes = new Set<string>()
+
+  for (const sample of ["1", "5"]) {
+    const text = formatValue(sample, { minimumFractionDigits: 0, maximumFractionDigits: 0 })
+    const first = text.search(/\d/)
+    const last = text.search(/\d(?!.*\d)/)
+    if (first === -1) continue
+
+    for (const affix of [text.slice(0, first), text.slice(last + 1)]) {
+      if (affix.trim()) affixes.add(affix.trim())
+    }
+  }
+
+  return Array.from(affixes).sort((a, b) => b.length - a.length)
+}
+
+export function removeAffixes(text: string, affixes: string[]): string {
+  return affixes.reduce((result, affix) => result.split(affix).join(" "), text)
+}
+
 export function applyMaxDigits(
   digits: string,
   fractionDigits: number,
@@ -59,26 +134,48 @@ export function applyMaxDigits(
 }
 
 export function formatCurrency(
-  value: number | null,
+  value: number | string | null,
   options: CurrencyFormattingOptions
 ): string {
-  const { currency, locale } = options
-  const { minFractionDigits, maxFractionDigits } = resolveFractionDigits(options)
-  if (value == null || Number.isNaN(value)) return ""
+  const { currency, locale, currencyDisplay, currencySign, signDisplay, negativeTemplate } = options
+  const { maxFractionDigits } = resolveFractionDigits(options)
+  if (!isNumericInput(value)) return ""
 
-  const formatter = new Intl.NumberFormat(locale, {
-    style: "currency",
-    currency,
-    minimumFractionDigits: minFractionDigits,
-    maximumFractionDigits: maxFractionDigits,
-  })
+  const numberOptions = resolveNotationOptions(value, options)
+  const info = getCurrencyInfo(currency)
+  const engine = resolveFormatEngine(locale, options.engine)
+
+  if (engine === "builtin" && !info?.custom) {
+    return formatBuiltinCurrency(value, options, info)
+  }
+
+  const formatter = info?.custom
+    ? null
+    : createCurrencyFormat(locale, {
+        ...numberOptions,
+        style: "currency",
+        currency,
+        currencyDisplay,
+        currencySign: negativeTemplate ? "standard" : currencySign,
+        signDisplay: signDisplay === "negative" && !NEGATIVE_SIGN_DISPLAY ? "auto" : signDisplay,
+      } as Intl.NumberFormatOptions)
+
+  if (!formatter) {
+    return formatCustomCurrency(value, options, numberOptions, maxFractionDigits, info, engine)
+  }
 
-  return formatter.format(value)
+  const text = formatNumericValue(formatter, value)
+  if (!negativeTemplate) return text
+
+  const minusSign = formatter
+    .formatToParts(Number(value))
+    .find((part) => part.type === "minusSign")?.value
+  return minusSign ? negativeTemplate.replace("{value}", text.replace(minusSign, "")) : text
 }
 
 export function parseCurrencyFromDigits(
   digits: string,
-  options: CurrencyParsingOptions
+  options: NumberParsingOptions
 ): number | null {
   const {
     fractionDigits = DEFAULT_FRACTION_DIGITS,
@@ -103,6 +200,22 @@ export function parseCurrencyFromDigits(
     value = -value
   }
 
+  return clampValue(value, { allowNegative, minimumValue, maximumValue })
+}
+
+export function clampValue(
+  incoming: number | null,
+  options: {
+    allowNegative: boolean
+    minimumValue?: number
+    maximumValue?: number
+  }
+): number | null {
+  const { allowNegative, minimumValue, maximumValue } = options
+  if (incoming == null || Number.isNaN(incoming)) return null
+
+  let value = incoming
+
   if (!allowNegative && value < 0) {
     const min = typeof minimumValue === "number" ? minimumValue : MIN_ZERO
     value = min
@@ -119,10 +232,7 @@ export function parseCurrencyFromDigits(
   return value
 }
 
-export function digitsFromValue(
-  value: number | null,
-  fractionDigits: number
-): { digits: string; isNegative: boolean } {
+export function digitsFromValue(value: number | null, fractionDigits: number): SignedDigits {
   if (value == null || Number.isNaN(value)) return { digits: "", isNegative: false }
 
   const isNegative = value < 0
@@ -134,11 +244,24 @@ export function digitsFromValue(
 
 export function formatRawDigits(
   digits: string,
-  options: CurrencyParsingOptions,
+  options: CurrencyParsingOptions & CurrencySignOptions,
   mask: CurrencyFormatterMode,
   isNegative: boolean
 ): FormatResult {
-  const { currency, locale } = options
+  const formatValue: NumberValueFormatter | null =
+    mask === "currency"
+      ? (value, fractionDigits) => formatCurrency(value, { ...options, ...fractionDigits })
+      : null
+
+  return formatDigits(digits, options, formatValue, isNegative)
+}
+
+export function formatDigits(
+  digits: string,
+  options: NumberParsingOptions & CurrencySignOptions,
+  formatValue: NumberValueFormatter | null,
+  isNegative: boolean
+): FormatResult {
   const { minFractionDigits, maxFractionDigits } = resolveFractionDigits(options)
 
   const value = parseCurrencyFromDigits(digits, {
@@ -147,11 +270,9 @@ export function formatRawDigits(
     isNegative,
   })
 
-  if (mask === "currency") {
+  if (formatValue) {
     return {
-      text: formatCurrency(value, {
-        currency,
-        locale,
+      text: formatValue(value, {
         minimumFractionDigits: minFractionDigits,
         maximumFractionDigits: maxFractionDigits,
       }),
@@ -159,27 +280,75 @@ export function formatRawDigits(
     }
   }
 
-  if (!digits) {
-    return { text: "", rawValue: "" }
+  return formatSignedDigits({ digits, isNegative }, options, null)
+}
+
+export function formatSignedDigits(
+  amount: SignedDigits,
+  options: NumberCommonOptions & CurrencySignOptions & { currency?: string; engine?: FormatEngine },
+  formatValue: NumberValueFormatter | null
+): FormatResult {
+  const { digits, isNegative } = amount
+  const { minFractionDigits, maxFractionDigits } = resolveFractionDigits(options)
+  const decimal = digits ? digitsToDecimalString(digits, maxFractionDigits) : ""
+
+  if (formatValue) {
+    return {
+      text: formatValue(decimal ? `${isNegative ? "-" : ""}${decimal}` : null, {
+        minimumFractionDigits: minFractionDigits,
+        maximumFractionDigits: maxFractionDigits,
+      }),
+      rawValue: digits,
+    }
   }
 
-  const padded = digits.padStart(maxFractionDigits + 1, "0")
-  const integerPart = padded.slice(0, padded.length - maxFractionDigits)
-  const decimalPart = maxFractionDigits > 0 ? padded.slice(-maxFractionDigits) : ""
-  const decimalSeparator = getDecimalSeparator(locale)
+  if (!decimal) {
+    return { text: "", rawValue: "" }
+  }
 
-  const normalizedInteger = integerPart.replace(/^0+(?=\d)/, "") || "0"
-  const text =
-    maxFractionDigits === 0
-      ? `${isNegative ? "-" : ""}${normalizedInteger}`
-      : `${isNegative ? "-" : ""}${normalizedInteger}${decimalSeparator}${decimalPart}`
+  const [integerPart, decimalPart] = decimal.split(".")
+  const decimalSeparator = getDecimalSeparator(options.locale, options.engine)
+  const text = applySignDisplay(
+    `${integerPart}${decimalPart ? `${decimalSeparator}${decimalPart}` : ""}`,
+    isNegative,
+    !/[1-9]/.test(digits),
+    options
+  )
 
   return { text, rawValue: digits }
 }
 
-export function getDecimalSeparator(locale?: string): string {
+// Sign handling for text that is assembled by hand rather than by Intl.NumberFormat.
+export function applySignDisplay(
+  text: string,
+  isNegative: boolean,
+  isZero: boolean,
+  options: CurrencySignOptions
+): string {
+  const { currencySign, negativeTemplate } = options
+  const sign = resolveSign(isNegative, isZero, options)
+
+  if (sign === "negative") {
+    if (negativeTemplate) return negativeTemplate.replace("{value}", text)
+    return currencySign === "accounting" ? `(${text})` : `-${text}`
+  }
+
+  return sign === "plus" ? `+${text}` : text
+}
+
+export function digitsToDecimalString(digits: string, fractionDigits: number): string {
+  const padded = digits.padStart(fractionDigits + 1, "0")
+  const integerPart = padded.slice(0, padded.length - fractionDigits).replace(/^0+(?=\d)/, "")
+  const decimalPart = fractionDigits > 0 ? padded.slice(-fractionDigits) : ""
+
+  return decimalPart ? `${integerPart}.${decimalPart}` : integerPart
+}
+
+export function getDecimalSeparator(locale?: string, engine?: FormatEngine): string {
+  if (resolveFormatEngine(locale, engine) === "builtin") return resolveLocaleData(locale).decimal
+
   try {
-    const parts = new Intl.NumberFormat(locale, {
+    const parts = getNumberFormat(locale, {
       minimumFractionDigits: 1,
       maximumFractionDigits: 1,
     }).formatToParts(1.1)
@@ -190,8 +359,17 @@ export function getDecimalSeparator(locale?: string): string {
   }
 }
 
-export function resolveFractionDigits(options: CurrencyCommonOptions) {
-  const base = typeof options.fractionDigits === "number" ? options.fractionDigits : DEFAULT_FRACTION_DIGITS
+export function insertDecimalSeparator(text: string, decimalSeparator: string): string {
+  const lastDigit = text.search(/\d(?!.*\d)/)
+  if (lastDigit === -1) return `${text}${decimalSeparator}`
+  return `${text.slice(0, lastDigit + 1)}${decimalSeparator}${text.slice(lastDigit + 1)}`
+}
+
+export function resolveFractionDigits(options: NumberCommonOptions & { currency?: string }) {
+  const base =
+    typeof options.fractionDigits === "number"
+      ? options.fractionDigits
+      : getCurrencyExponent(options.currency) ?? DEFAULT_FRACTION_DIGITS
   const minFractionDigits =
     typeof options.minimumFractionDigits === "number" ? options.minimumFractionDigits : base
   const maxFractionDigits =
@@ -202,3 +380,159 @@ export function resolveFractionDigits(options: CurrencyCommonOptions) {
 
   return { minFractionDigits: min, maxFractionDigits: max }
 }
+
+function readDefaultDecimalSeparator() {
+  try {
+    return (
+      new Intl.NumberFormat(undefined, { minimumFractionDigits: 1, maximumFractionDigits: 1 })
+        .formatToParts(0.1)
+        .find((part) => part.type === "decimal")?.value ?? "."
+    )
+  } catch (error) {
+    return "."
+  }
+}
+
+function supportsNegativeSignDisplay() {
+  try {
+    const options = { signDisplay: "negative" } as unknown as Intl.NumberFormatOptions
+    return new Intl.NumberFormat("en-US", options).format(-0) === "0"
+  } catch (error) {
+    return false
+  }
+}
+
+// Compact amounts use Intl's own rounding ("$1.2K") unless fraction digits were asked for,
+// and amounts below `compactThreshold` keep the standard notation.
+function resolveNotationOptions(
+  value: number | string,
+  options: CurrencyFormattingOptions
+): Intl.NumberFormatOptions {
+  const { notation, compactDisplay, compactThreshold } = options
+  const { minFractionDigits, maxFractionDigits } = resolveFractionDigits(options)
+  const fractionOptions = {
+    minimumFractionDigits: minFractionDigits,
+    maximumFractionDigits: maxFractionDigits,
+  }
+
+  const belowThreshold =
+    typeof compactThreshold === "number" && Math.abs(Number(value)) < compactThreshold
+  if (notation !== "compact" || belowThreshold) return fractionOptions
+
+  const hasFractionOptions =
+    typeof options.fractionDigits === "number" ||
+    typeof options.minimumFractionDigits === "number" ||
+    typeof options.maximumFractionDigits === "number"
+
+  return {
+    ...(hasFractionOptions ? fractionOptions : {}),
+    notation: "compact",
+    compactDisplay,
+  }
+}
+
+function createCurrencyFormat(locale: string | undefined, options: Intl.NumberFormatOptions) {
+  try {
+    return getNumberFormat(locale, options)
+  } catch (error) {
+    if (error instanceof RangeError) return null
+    throw error
+  }
+}
+
+// Currencies Intl does not know (or that are registered as custom) are formatted as
+// plain decimals with the symbol attached by hand.
+function formatCustomCurrency(
+  value: number | string,
+  options: CurrencyFormattingOptions,
+  numberOptions: Intl.NumberFormatOptions,
+  maxFractionDigits: number,
+  info: CurrencyInfo | null,
+  engine: FormatEngine
+): string {
+  const numeric = Number(value)
+  const absolute = typeof value === "number" ? Math.abs(value) : value.trim().replace(/^[-+]/, "")
+  const number =
+    engine === "builtin"
+      ? formatBuiltinNumber(
+          absolute,
+          resolveLocaleData(options.locale),
+          resolveFractionDigits(options).minFractionDigits,
+          maxFractionDigits
+        ).text
+      : formatNumericValue(getNumberFormat(options.locale, numberOptions), absolute)
+  const { symbol, isSuffix, space } = customCurrencyAffix(info, options)
+  const text = isSuffix ? `${number}${space}${symbol}` : `${symbol}${space}${number}`
+
+  return applySignDisplay(
+    text,
+    numeric < 0 || Object.is(numeric, -0),
+    Math.abs(numeric) < 0.5 / Math.pow(10, maxFractionDigits),
+    options
+  )
+}
+
+// Currency formatting from registered locale data for runtimes without a usable Intl.
+// Compact notation is not supported here and falls back to the standard layout.
+function formatBuiltinCurrency(
+  value: number | string,
+  options: CurrencyFormattingOptions,
+  info: CurrencyInfo | null
+): string {
+  const { currency, locale, currencyDisplay = "symbol", currencySign, negativeTemplate } = options
+  const { minFractionDigits, maxFractionDigits } = resolveFractionDigits(options)
+  const data = resolveLocaleData(locale)
+  const number = formatBuiltinNumber(value, data, minFractionDigits, maxFractionDigits)
+  const code = currency.toUpperCase()
+
+  if (currencyDisplay === "name") {
+    const text = `${number.text} ${info?.name ?? code}`
+    return applySignDisplay(text, number.isNegative, number.isZero, options)
+  }
+
+  const symbol =
+    currencyDisplay === "code"
+      ? code
+      : currencyDisplay === "narrowSymbol"
+        ? info?.narrowSymbol ?? code
+        : data.currencySymbols?.[code] ?? info?.symbol ?? code
+  const fill = (pattern: string) => applyCurrencyPattern(pattern, number.text, symbol, data)
+
+  switch (resolveSign(number.isNegative, number.isZero, options)) {
+    case "negative":
+      if (negativeTemplate) return negativeTemplate.replace("{value}", fill(data.currencyPattern))
+      return fill(currencySign === "accounting" ? data.accountingPattern : data.negativePattern)
+    case "plus":
+      return fill(data.negativePattern.replace("-", "+"))
+    default:
+      return fill(data.currencyPattern)
+  }
+}
+
+function resolveSign(isNegative: boolean, isZero: boolean, options: CurrencySignOptions) {
+  const { signDisplay = "auto" } = options
+  const hidesZeroSign = isZero && (signDisplay === "exceptZero" || signDisplay === "negative")
+
+  if (isNegative && signDisplay !== "never" && !hidesZeroSign) return "negative"
+  const showsPlus = signDisplay === "always" || (signDisplay === "exceptZero" && !isZero)
+  return showsPlus ? "plus" : "none"
+}
+
+function customCurrencyAffix(info: CurrencyInfo | null, options: CurrencyFormattingOptions) {
+  const { currencyDisplay = "symbol" } = options
+  const code = info?.code ?? options.currency.toUpperCase()
+  const isSuffix = info?.symbolPosition === "suffix"
+
+  if (currencyDisplay === "name") {
+    return { symbol: info?.name ?? code, isSuffix: true, space: " " }
+  }
+  if (currencyDisplay === "code" || !info) {
+    return { symbol: code, isSuffix, space: "\u00a0" }
+  }
+
+  return {
+    symbol: currencyDisplay === "narrowSymbol" ? info.narrowSymbol : info.symbol,
+    isSuffix,
+    space: info.spacing ? "\u00a0" : "",
+  }
+}
@@ -0,0 +1,227 @@
+export type CurrencyInfo = {
+  code: string
+  exponent: number
+  symbol: string
+  narrowSymbol: string
+  name: string
+  custom?: boolean
+  symbolPosition?: "prefix" | "suffix"
+  spacing?: boolean
+}
+
+export type CustomCurrencyDefinition = {
+  code: string
+  symbol: string
+  fractionDigits: number
+  narrowSymbol?: string
+  name?: string
+  symbolPosition?: "prefix" | "suffix"
+  spacing?: boolean
+}
+
+// ISO 4217 minor-unit exponents with English (CLDR) symbols and names.
+export const ISO_CURRENCIES: Record<string, CurrencyInfo> = {
+  AED: { code: "AED", exponent: 2, symbol: "AED", narrowSymbol: "AED", name: "United Arab Emirates Dirham" },
+  AFN: { code: "AFN", exponent: 2, symbol: "AFN", narrowSymbol: "؋", name: "Afghan Afghani" },
+  ALL: { code: "ALL", exponent: 2, symbol: "ALL", narrowSymbol: "ALL", name: "Albanian Lek" },
+  AMD: { code: "AMD", exponent: 2, symbol: "AMD", narrowSymbol: "֏", name: "Armenian Dram" },
+  ANG: { code: "ANG", exponent: 2, symbol: "ANG", narrowSymbol: "ANG", name: "Netherlands Antillean Guilder" },
+  AOA: { code: "AOA", exponent: 2, symbol: "AOA", narrowSymbol: "Kz", name: "Angolan Kwanza" },
+  ARS: { code: "ARS", exponent: 2, symbol: "ARS", narrowSymbol: "$", name: "Argentine Peso" },
+  AUD: { code: "AUD", exponent: 2, symbol: "A$", narrowSymbol: "$", name: "Australian Dollar" },
+  AWG: { code: "AWG", exponent: 2, symbol: "AWG", narrowSymbol: "AWG", name: "Aruban Florin" },
+  AZN: { code: "AZN", exponent: 2, symbol: "AZN", narrowSymbol: "₼", name: "Azerbaijani Manat" },
+  BAM: { code: "BAM", exponent: 2, symbol: "BAM", narrowSymbol: "KM", name: "Bosnia-Herzegovina Convertible Mark" },
+  BBD: { code: "BBD", exponent: 2, symbol: "BBD", narrowSymbol: "$", name: "Barbadian Dollar" },
+  BDT: { code: "BDT", exponent: 2, symbol: "BDT", narrowSymbol: "৳", name: "Bangladeshi Taka" },
+  BGN: { code: "BGN", exponent: 2, symbol: "BGN", narrowSymbol: "BGN", name: "Bulgarian Lev" },
+  BHD: { code: "BHD", exponent: 3, symbol: "BHD", narrowSymbol: "BHD", name: "Bahraini Dinar" },
+  BIF: { code: "BIF", exponent: 0, symbol: "BIF", narrowSymbol: "BIF", name: "Burundian Franc" },
+  BMD: { code: "BMD", exponent: 2, symbol: "BMD", narrowSymbol: "$", name: "Bermudan Dollar" },
+  BND: { code: "BND", exponent: 2, symbol: "BND", narrowSymbol: "$", name: "Brunei Dollar" },
+  BOB: { code: "BOB", exponent: 2, symbol: "BOB", narrowSymbol: "Bs", name: "Bolivian Boliviano" },
+  BRL: { code: "BRL", exponent: 2, symbol: "R$", narrowSymbol: "R$", name: "Brazilian Real" },
+  BSD: { code: "BSD", exponent: 2, symbol: "BSD", narrowSymbol: "$", name: "Bahamian Dollar" },
+  BTN: { code: "BTN", exponent: 2, symbol: "BTN", narrowSymbol: "BTN", name: "Bhutanese Ngultrum" },
+  BWP: { code: "BWP", exponent: 2, symbol: "BWP", narrowSymbol: "P", name: "Botswanan Pula" },
+  BYN: { code: "BYN", exponent: 2, symbol: "BYN", narrowSymbol: "BYN", name: "Belarusian Ruble" },
+  BZD: { code: "BZD", exponent: 2, symbol: "BZD", narrowSymbol: "$", name: "Belize Dollar" },
+  CAD: { code: "CAD", exponent: 2, symbol: "CA$", narrowSymbol: "$", name: "Canadian Dollar" },
+  CDF: { code: "CDF", exponent: 2, symbol: "CDF", narrowSymbol: "CDF", name: "Congolese Franc" },
+  CHF: { code: "CHF", exponent: 2, symbol: "CHF", narrowSymbol: "CHF", name: "Swiss Franc" },
+  CLF: { code: "CLF", exponent: 4, symbol: "CLF", narrowSymbol: "CLF", name: "Chilean Unit of Account (UF)" },
+  CLP: { code: "CLP", exponent: 0, symbol: "CLP", narrowSymbol: "$", name: "Chilean Peso" },
+  CNY: { code: "CNY", exponent: 2, symbol: "CN¥", narrowSymbol: "¥", name: "Chinese Yuan" },
+  COP: { code: "COP", exponent: 2, symbol: "COP", narrowSymbol: "$", name: "Colombian Peso" },
+  CRC: { code: "CRC", exponent: 2, symbol: "CRC", narrowSymbol: "₡", name: "Costa Rican Colón" },
+  CUP: { code: "CUP", exponent: 2, symbol: "CUP", narrowSymbol: "$", name: "Cuban Peso" },
+  CVE: { code: "CVE", exponent: 2, symbol: "CVE", narrowSymbol: "CVE", name: "Cape Verdean Escudo" },
+  CZK: { code: "CZK", exponent: 2, symbol: "CZK", narrowSymbol: "Kč", name: "Czech Koruna" },
+  DJF: { code: "DJF", exponent: 0, symbol: "DJF", narrowSymbol: "DJF", name: "Djiboutian Franc" },
+  DKK: { code: "DKK", exponent: 2, symbol: "DKK", narrowSymbol: "kr", name: "Danish Krone" },
+  DOP: { code: "DOP", exponent: 2, symbol: "DOP", narrowSymbol: "$", name: "Dominican Peso" },
+  DZD: { code: "DZD", exponent: 2, symbol: "DZD", narrowSymbol: "DZD", name: "Algerian Dinar" },
+  EGP: { code: "EGP", exponent: 2, symbol: "EGP", narrowSymbol: "E£", name: "Egyptian Pound" },
+  ERN: { code: "ERN", exponent: 2, symbol: "ERN", narrowSymbol: "ERN", name: "Eritrean Nakfa" },
+  ETB: { code: "ETB", exponent: 2, symbol: "ETB", narrowSymbol: "ETB", name: "Ethiopian Birr" },
+  EUR: { code: "EUR", exponent: 2, symbol: "€", narrowSymbol: "€", name: "Euro" },
+  FJD: { code: "FJD", exponent: 2, symbol: "FJD", narrowSymbol: "$", name: "Fijian Dollar" },
+  FKP: { code: "FKP", exponent: 2, symbol: "FKP", narrowSymbol: "£", name: "Falkland Islands Pound" },
+  GBP: { code: "GBP", exponent: 2, symbol: "£", narrowSymbol: "£", name: "British Pound" },
+  GEL: { code: "GEL", exponent: 2, symbol: "GEL", narrowSymbol: "₾", name: "Georgian Lari" },
+  GHS: { code: "GHS", exponent: 2, symbol: "GHS", narrowSymbol: "GH₵", name: "Ghanaian Cedi" },
+  GIP: { code: "GIP", exponent: 2, symbol: "GIP", narrowSymbol: "£", name: "Gibraltar Pound" },
+  GMD: { code: "GMD", exponent: 2, symbol: "GMD", narrowSymbol: "GMD", name: "Gambian Dalasi" },
+  GNF: { code: "GNF", exponent: 0, symbol: "GNF", narrowSymbol: "FG", name: "Guinean Franc" },
+  GTQ: { code: "GTQ", exponent: 2, symbol: "GTQ", narrowSymbol: "Q", name: "Guatemalan Quetzal" },
+  GYD: { code: "GYD", exponent: 2, symbol: "GYD", narrowSymbol: "$", name: "Guyanaese Dollar" },
+  HKD: { code: "HKD", exponent: 2, symbol: "HK$", narrowSymbol: "$", name: "Hong Kong Dollar" },
+  HNL: { code: "HNL", exponent: 2, symbol: "HNL", narrowSymbol: "L", name: "Honduran Lempira" },
+  HTG: { code: "HTG", exponent: 2, symbol: "HTG", narrowSymbol: "HTG", name: "Haitian Gourde" },
+  HUF: { code: "HUF", exponent: 2, symbol: "HUF", narrowSymbol: "Ft", name: "Hungarian Forint" },
+  IDR: { code: "IDR", exponent: 2, symbol: "IDR", narrowSymbol: "Rp", name: "Indonesian Rupiah" },
+  ILS: { code: "ILS", exponent: 2, symbol: "₪", narrowSymbol: "₪", name: "Israeli New Shekel" },
+  INR: { code: "INR", exponent: 2, symbol: "₹", narrowSymbol: "₹", name: "Indian Rupee" },
+  IQD: { code: "IQD", exponent: 3, symbol: "IQD", narrowSymbol: "IQD", name: "Iraqi Dinar" },
+  IRR: { code: "IRR", exponent: 2, symbol: "IRR", narrowSymbol: "IRR", name: "Iranian Rial" },
+  ISK: { code: "ISK", exponent: 0, symbol: "ISK", narrowSymbol: "kr", name: "Icelandic Króna" },
+  JMD: { code: "JMD", exponent: 2, symbol: "JMD", narrowSymbol: "$", name: "Jamaican Dollar" },
+  JOD: { code: "JOD", exponent: 3, symbol: "JOD", narrowSymbol: "JOD", name: "Jordanian Dinar" },
+  JPY: { code: "JPY", exponent: 0, symbol: "¥", narrowSymbol: "¥", name: "Japanese Yen" },
+  KES: { code: "KES", exponent: 2, symbol: "KES", narrowSymbol: "KES", name: "Kenyan Shilling" },
+  KGS: { code: "KGS", exponent: 2, symbol: "KGS", narrowSymbol: "⃀", name: "Kyrgystani Som" },
+  KHR: { code: "KHR", exponent: 2, symbol: "KHR", narrowSymbol: "៛", name: "Cambodian Riel" },
+  KMF: { code: "KMF", exponent: 0, symbol: "KMF", narrowSymbol: "CF", name: "Comorian Franc" },
+  KPW: { code: "KPW", exponent: 2, symbol: "KPW", narrowSymbol: "₩", name: "North Korean Won" },
+  KRW: { code: "KRW", exponent: 0, symbol: "₩", narrowSymbol: "₩", name: "South Korean Won" },
+  KWD: { code: "KWD", exponent: 3, symbol: "KWD", narrowSymbol: "KWD", name: "Kuwaiti Dinar" },
+  KYD: { code: "KYD", exponent: 2, symbol: "KYD", narrowSymbol: "$", name: "Cayman Islands Dollar" },
+  KZT: { code: "KZT", exponent: 2, symbol: "KZT", narrowSymbol: "₸", name: "Kazakhstani Tenge" },
+  LAK: { code: "LAK", exponent: 2, symbol: "LAK", narrowSymbol: "₭", name: "Laotian Kip" },
+  LBP: { code: "LBP", exponent: 2, symbol: "LBP", narrowSymbol: "L£", name: "Lebanese Pound" },
+  LKR: { code: "LKR", exponent: 2, symbol: "LKR", narrowSymbol: "Rs", name: "Sri Lankan Rupee" },
+  LRD: { code: "LRD", exponent: 2, symbol: "LRD", narrowSymbol: "$", name: "Liberian Dollar" },
+  LSL: { code: "LSL", exponent: 2, symbol: "LSL", narrowSymbol: "LSL", name: "Lesotho Loti" },
+  LYD: { code: "LYD", exponent: 3, symbol: "LYD", narrowSymbol: "LYD", name: "Libyan Dinar" },
+  MAD: { code: "MAD", exponent: 2, symbol: "MAD", narrowSymbol: "MAD", name: "Moroccan Dirham" },
+  MDL: { code: "MDL", exponent: 2, symbol: "MDL", narrowSymbol: "MDL", name: "Moldovan Leu" },
+  MGA: { code: "MGA", exponent: 2, symbol: "MGA", narrowSymbol: "Ar", name: "Malagasy Ariary" },
+  MKD: { code: "MKD", exponent: 2, symbol: "MKD", narrowSymbol: "MKD", name: "Macedonian Denar" },
+  MMK: { code: "MMK", exponent: 2, symbol: "MMK", narrowSymbol: "K", name: "Myanmar Kyat" },
+  MNT: { code: "MNT", exponent: 2, symbol: "MNT", narrowSymbol: "₮", name: "Mongolian Tugrik" },
+  MOP: { code: "MOP", exponent: 2, symbol: "MOP", narrowSymbol: "MOP", name: "Macanese Pataca" },
+  MRU: { code: "MRU", exponent: 2, symbol: "MRU", narrowSymbol: "MRU", name: "Mauritanian Ouguiya" },
+  MUR: { code: "MUR", exponent: 2, symbol: "MUR", narrowSymbol: "Rs", name: "Mauritian Rupee" },
+  MVR: { code: "MVR", exponent: 2, symbol: "MVR", narrowSymbol: "MVR", name: "Maldivian Rufiyaa" },
+  MWK: { code: "MWK", exponent: 2, symbol: "MWK", narrowSymbol: "MWK", name: "Malawian Kwacha" },
+  MXN: { code: "MXN", exponent: 2, symbol: "MX$", narrowSymbol: "$", name: "Mexican Peso" },
+  MYR: { code: "MYR", exponent: 2, symbol: "MYR", narrowSymbol: "RM", name: "Malaysian Ringgit" },
+  MZN: { code: "MZN", exponent: 2, symbol: "MZN", narrowSymbol: "MZN", name: "Mozambican Metical" },
+  NAD: { code: "NAD", exponent: 2, symbol: "NAD", narrowSymbol: "$", name: "Namibian Dollar" },
+  NGN: { code: "NGN", exponent: 2, symbol: "NGN", narrowSymbol: "₦", name: "Nigerian Naira" },
+  NIO: { code: "NIO", exponent: 2, symbol: "NIO", narrowSymbol: "C$", name: "Nicaraguan Córdoba" },
+  NOK: { code: "NOK", exponent: 2, symbol: "NOK", narrowSymbol: "kr", name: "Norwegian Krone" },
+  NPR: { code: "NPR", exponent: 2, symbol: "NPR", narrowSymbol: "Rs", name: "Nepalese Rupee" },
+  NZD: { code: "NZD", exponent: 2, symbol: "NZ$", narrowSymbol: "$", name: "New Zealand Dollar" },
+  OMR: { code: "OMR", exponent: 3, symbol: "OMR", narrowSymbol: "OMR", name: "Omani Rial" },
+  PAB: { code: "PAB", exponent: 2, symbol: "PAB", narrowSymbol: "PAB", name: "Panamanian Balboa" },
+  PEN: { code: "PEN", exponent: 2, symbol: "PEN", narrowSymbol: "PEN", name: "Peruvian Sol" },
+  PGK: { code: "PGK", exponent: 2, symbol: "PGK", narrowSymbol: "PGK", name: "Papua New Guinean Kina" },
+  PHP: { code: "PHP", exponent: 2, symbol: "₱", narrowSymbol: "₱", name: "Philippine Peso" },
+  PKR: { code: "PKR", exponent: 2, symbol: "PKR", narrowSymbol: "Rs", name: "Pakistani Rupee" },
+  PLN: { code: "PLN", exponent: 2, symbol: "PLN", narrowSymbol: "zł", name: "Polish Zloty" },
+  PYG: { code: "PYG", exponent: 0, symbol: "PYG", narrowSymbol: "₲", name: "Paraguayan Guarani" },
+  QAR: { code: "QAR", exponent: 2, symbol: "QAR", narrowSymbol: "QAR", name: "Qatari Riyal" },
+  RON: { code: "RON", exponent: 2, symbol: "RON", narrowSymbol: "lei", name: "Romanian Leu" },
+  RSD: { code: "RSD", exponent: 2, symbol: "RSD", narrowSymbol: "RSD", name: "Serbian Dinar" },
+  RUB: { code: "RUB", exponent: 2, symbol: "RUB", narrowSymbol: "₽", name: "Russian Ruble" },
+  RWF: { code: "RWF", exponent: 0, symbol: "RWF", narrowSymbol: "RF", name: "Rwandan Franc" },
+  SAR: { code: "SAR", exponent: 2, symbol: "SAR", narrowSymbol: "SAR", name: "Saudi Riyal" },
+  SBD: { code: "SBD", exponent: 2, symbol: "SBD", narrowSymbol: "$", name: "Solomon Islands Dollar" },
+  SCR: { code: "SCR", exponent: 2, symbol: "SCR", narrowSymbol: "SCR", name: "Seychellois Rupee" },
+  SDG: { code: "SDG", exponent: 2, symbol: "SDG", narrowSymbol: "SDG", name: "Sudanese Pound" },
+  SEK: { code: "SEK", exponent: 2, symbol: "SEK", narrowSymbol: "kr", name: "Swedish Krona" },
+  SGD: { code: "SGD", exponent: 2, symbol: "SGD", narrowSymbol: "$", name: "Singapore Dollar" },
+  SHP: { code: "SHP", exponent: 2, symbol: "SHP", narrowSymbol: "£", name: "St. Helena Pound" },
+  SLE: { code: "SLE", exponent: 2, symbol: "SLE", narrowSymbol: "SLE", name: "Sierra Leonean Leone" },
+  SOS: { code: "SOS", exponent: 2, symbol: "SOS", narrowSymbol: "SOS", name: "Somali Shilling" },
+  SRD: { code: "SRD", exponent: 2, symbol: "SRD", narrowSymbol: "$", name: "Surinamese Dollar" },
+  SSP: { code: "SSP", exponent: 2, symbol: "SSP", narrowSymbol: "£", name: "South Sudanese Pound" },
+  STN: { code: "STN", exponent: 2, symbol: "STN", narrowSymbol: "Db", name: "São Tomé & Príncipe Dobra" },
+  SVC: { code: "SVC", exponent: 2, symbol: "SVC", narrowSymbol: "SVC", name: "Salvadoran Colón" },
+  SYP: { code: "SYP", exponent: 2, symbol: "SYP", narrowSymbol: "£", name: "Syrian Pound" },
+  SZL: { code: "SZL", exponent: 2, symbol: "SZL", narrowSymbol: "SZL", name: "Swazi Lilangeni" },
+  THB: { code: "THB", exponent: 2, symbol: "THB", narrowSymbol: "฿", name: "Thai Baht" },
+  TJS: { code: "TJS", exponent: 2, symbol: "TJS", narrowSymbol: "TJS", name: "Tajikistani Somoni" },
+  TMT: { code: "TMT", exponent: 2, symbol: "TMT", narrowSymbol: "TMT", name: "Turkmenistani Manat" },
+  TND: { code: "TND", exponent: 3, symbol: "TND", narrowSymbol: "TND", name: "Tunisian Dinar" },
+  TOP: { code: "TOP", exponent: 2, symbol: "TOP", narrowSymbol: "T$", name: "Tongan Paʻanga" },
+  TRY: { code: "TRY", exponent: 2, symbol: "TRY", narrowSymbol: "₺", name: "Turkish Lira" },
+  TTD: { code: "TTD", exponent: 2, symbol: "TTD", narrowSymbol: "$", name: "Trinidad & Tobago Dollar" },
+  TWD: { code: "TWD", exponent: 2, symbol: "NT$", narrowSymbol: "$", name: "New Taiwan Dollar" },
+  TZS: { code: "TZS", exponent: 2, symbol: "TZS", narrowSymbol: "TZS", name: "Tanzanian Shilling" },
+  UAH: { code: "UAH", exponent: 2, symbol: "UAH", narrowSymbol: "₴", name: "Ukrainian Hryvnia" },
+  UGX: { code: "UGX", exponent: 0, symbol: "UGX", narrowSymbol: "UGX", name: "Ugandan Shilling" },
+  USD: { code: "USD", exponent: 2, symbol: "$", narrowSymbol: "$", name: "US Dollar" },
+  UYU: { code: "UYU", exponent: 2, symbol: "UYU", narrowSymbol: "$", name: "Uruguayan Peso" },
+  UYW: { code: "UYW", exponent: 4, symbol: "UYW", narrowSymbol: "UYW", name: "Uruguayan Nominal Wage Index Unit" },
+  UZS: { code: "UZS", exponent: 2, symbol: "UZS", narrowSymbol: "UZS", name: "Uzbekistani Som" },
+  VED: { code: "VED", exponent: 2, symbol: "VED", narrowSymbol: "VED", name: "Bolívar Soberano" },
+  VES: { code: "VES", exponent: 2, symbol: "VES", narrowSymbol: "VES", name: "Venezuelan Bolívar" },
+  VND: { code: "VND", exponent: 0, symbol: "₫", narrowSymbol: "₫", name: "Vietnamese Dong" },
+  VUV: { code: "VUV", exponent: 0, symbol: "VUV", narrowSymbol: "VUV", name: "Vanuatu Vatu" },
+  WST: { code: "WST", exponent: 2, symbol: "WST", narrowSymbol: "WST", name: "Samoan Tala" },
+  XAF: { code: "XAF", exponent: 0, symbol: "FCFA", narrowSymbol: "FCFA", name: "Central African CFA Franc" },
+  XCD: { code: "XCD", exponent: 2, symbol: "EC$", narrowSymbol: "$", name: "East Caribbean Dollar" },
+  XCG: { code: "XCG", exponent: 2, symbol: "Cg.", narrowSymbol: "Cg.", name: "Caribbean Guilder" },
+  XOF: { code: "XOF", exponent: 0, symbol: "F CFA", narrowSymbol: "F CFA", name: "West African CFA Franc" },
+  XPF: { code: "XPF", exponent: 0, symbol: "CFPF", narrowSymbol: "CFPF", name: "CFP Franc" },
+  YER: { code: "YER", exponent: 2, symbol: "YER", narrowSymbol: "YER", name: "Yemeni Rial" },
+  ZAR: { code: "ZAR", exponent: 2, symbol: "ZAR", narrowSymbol: "R", name: "South African Rand" },
+  ZMW: { code: "ZMW", exponent: 2, symbol: "ZMW", narrowSymbol: "ZK", name: "Zambian Kwacha" },
+  ZWG: { code: "ZWG", exponent: 2, symbol: "ZWG", narrowSymbol: "ZWG", name: "Zimbabwean Gold" },
+}
+
+const registry = new Map<string, CurrencyInfo>(Object.entries(ISO_CURRENCIES))
+
+export function registerCurrency(info: CurrencyInfo): void {
+  if (!/^[A-Za-z0-9]{2,}$/.test(info.code)) {
+    throw new Error(`Invalid currency code: ${info.code}`)
+  }
+  if (!Number.isInteger(info.exponent) || info.exponent < 0 || info.exponent > 20) {
+    throw new Error(`Invalid minor-unit exponent for ${info.code}: ${info.exponent}`)
+  }
+
+  const code = info.code.toUpperCase()
+  registry.set(code, { ...info, code })
+}
+
+// Custom currencies skip Intl's currency style, which rejects or mislabels codes such as
+// "USDT" or "PTS", and are formatted as decimals with the symbol placed by hand.
+export function defineCurrency(definition: CustomCurrencyDefinition): CurrencyInfo {
+  const { code, symbol, fractionDigits, narrowSymbol = symbol, name = code, ...layout } = definition
+  registerCurrency({
+    code,
+    exponent: fractionDigits,
+    symbol,
+    narrowSymbol,
+    name,
+    custom: true,
+    symbolPosition: layout.symbolPosition ?? "prefix",
+    spacing: layout.spacing ?? false,
+  })
+  return registry.get(code.toUpperCase()) as CurrencyInfo
+}
+
+export function getCurrencyInfo(code: string | undefined): CurrencyInfo | null {
+  if (!code) return null
+  return registry.get(code.toUpperCase()) ?? null
+}
+
+export function getCurrencyExponent(code: string | undefined): number | undefined {
+  return getCurrencyInfo(code)?.exponent
+}
+
+export function listCurrencies(): CurrencyInfo[] {
+  return Array.from(registry.values())
+}
@@ -0,0 +1,186 @@
+import { getNumberFormat } from "./formatterCache"
+
+export type DecimalParts = {
+  isNegative: boolean
+  integer: string
+  fraction: string
+}
+
+type Grouping = {
+  separator: string
+  primary: number
+  secondary: number
+  minimumDigits: number
+}
+
+const DECIMAL_PATTERN = /^([-+]?)(\d*)(?:\.(\d*))?$/
+const SAMPLE_DIGITS = "123456789"
+
+const EXACT_STRING_INPUT = supportsExactStringInput()
+
+export function isNumericInput(value: number | string | null | undefined): value is number | string {
+  if (value == null) return false
+  if (typeof value === "number") return !Number.isNaN(value)
+  return parseDecimalString(value) != null
+}
+
+export function formatNumericValue(formatter: Intl.NumberFormat, value: number | string): string {
+  if (typeof value === "number") return formatter.format(value)
+  if (EXACT_STRING_INPUT) return formatter.format(value as unknown as number)
+  return assembleDecimalString(formatter, value)
+}
+
+export function parseDecimalString(value: string): DecimalParts | null {
+  const match = DECIMAL_PATTERN.exec(value.trim())
+  if (!match || !(match[2] || match[3])) return null
+
+  return {
+    isNegative: match[1] === "-",
+    integer: trimLeadingZeros(match[2]),
+    fraction: match[3] ?? "",
+  }
+}
+
+export function roundDecimalParts(parts: DecimalParts, fractionDigits: number): DecimalParts {
+  const kept = parts.fraction.slice(0, fractionDigits).padEnd(fractionDigits, "0")
+  if (Number(parts.fraction.charAt(fractionDigits) || "0") < 5) {
+    return { ...parts, fraction: kept }
+  }
+
+  const incremented = incrementDigits(`${parts.integer}${kept}`)
+  const point = incremented.length - fractionDigits
+
+  return {
+    isNegative: parts.isNegative,
+    integer: trimLeadingZeros(incremented.slice(0, point)),
+    fraction: incremented.slice(point),
+  }
+}
+
+export function shiftDecimalString(value: string, places: number): string {
+  const parts = parseDecimalString(value)
+  if (!parts) return value
+
+  const { isNegative, integer, fraction } = shiftDecimalParts(parts, places)
+  return `${isNegative ? "-" : ""}${integer}${fraction ? `.${fraction}` : ""}`
+}
+
+export function assembleDecimalString(formatter: Intl.NumberFormat, decimal: string): string {
+  const parsed = parseDecimalString(decimal)
+  const options = formatter.resolvedOptions()
+
+  if (!parsed || (options.notation ?? "standard") !== "standard") {
+    return formatter.format(Number(decimal))
+  }
+
+  const scaled = options.style === "percent" ? shiftDecimalParts(parsed, 2) : parsed
+  const rounded = roundDecimalParts(scaled, options.maximumFractionDigits ?? 0)
+  const fraction = trimFraction(rounded.fraction, options.minimumFractionDigits ?? 0)
+
+  const digits = getNumberFormat(options.locale, {
+    numberingSystem: options.numberingSystem,
+    useGrouping: false,
+  })
+  const localize = (text: string) => text.replace(/\d/g, (digit) => digits.format(Number(digit)))
+  const integer = localize(groupInteger(rounded.integer, resolveGrouping(formatter)))
+
+  const template = options.style === "percent" ? 0.015 : 1.5
+
+  let integerWritten = false
+  return formatter
+    .formatToParts(rounded.isNegative ? -template : template)
+    .map((part) => {
+      switch (part.type) {
+        case "integer":
+          if (integerWritten) return ""
+          integerWritten = true
+          return integer
+        case "group":
+          return ""
+        case "decimal":
+          return fraction ? part.value : ""
+        case "fraction":
+          return localize(fraction)
+        default:
+          return part.value
+      }
+    })
+    .join("")
+}
+
+function supportsExactStringInput() {
+  try {
+    const formatter = new Intl.NumberFormat("en-US", { useGrouping: false })
+    return formatter.format("9007199254740993" as unknown as number) === "9007199254740993"
+  } catch (error) {
+    return false
+  }
+}
+
+function resolveGrouping(formatter: Intl.NumberFormat): Grouping | null {
+  const parts = formatter.formatToParts(Number(SAMPLE_DIGITS))
+  const separator = parts.find((part) => part.type === "group")?.value
+  if (!separator) return null
+
+  const groups = parts.filter((part) => part.type === "integer").map((part) => part.value.length)
+  const primary = groups[groups.length - 1]
+  const secondary = groups.length > 2 ? groups[groups.length - 2] : primary
+
+  const smallest = formatter
+    .formatToParts(Number(SAMPLE_DIGITS.slice(0, primary + 1)))
+    .filter((part) => part.type === "integer").length
+
+  return { separator, primary, secondary, minimumDigits: smallest > 1 ? 1 : 2 }
+}
+
+function groupInteger(integer: string, grouping: Grouping | null) {
+  if (!grouping || integer.length < grouping.primary + grouping.minimumDigits) return integer
+
+  const { separator, primary, secondary } = grouping
+  const groups = [integer.slice(-primary)]
+  let rest = integer.slice(0, -primary)
+
+  while (rest.length > secondary) {
+    groups.unshift(rest.slice(-secondary))
+    rest = rest.slice(0, -secondary)
+  }
+
+  groups.unshift(rest)
+  return groups.join(separator)
+}
+
+function shiftDecimalParts(parts: DecimalParts, places: number): DecimalParts {
+  const digits = `${parts.integer}${parts.fraction}`
+  const point = parts.integer.length + places
+  const padded = point < 0 ? `${"0".repeat(-point)}${digits}` : digits.padEnd(point, "0")
+  const at = Math.max(point, 0)
+
+  return {
+    isNegative: parts.isNegative,
+    integer: trimLeadingZeros(padded.slice(0, at)),
+    fraction: padded.slice(at),
+  }
+}
+
+function trimFraction(fraction: string, minimumDigits: number) {
+  let end = fraction.length
+  while (end > minimumDigits && fraction.charAt(end - 1) === "0") end--
+  return fraction.slice(0, end)
+}
+
+function incrementDigits(digits: string) {
+  let result = ""
+  let carry = 1
+
+  for (let index = digits.length - 1; index >= 0; index--) {
+    const sum = Number(digits[index]) + carry
+    result = `${sum % 10}${result}`
+    carry = sum >= 10 ? 1 : 0
+  }
+
+  return carry ? `1${result}` : result
+}
+
+function trimLeadingZeros(digits: string) {
+  return digits.replace(/^0+(?=\d)/, "") || "0"
+}
@@ -0,0 +1,118 @@
+import { NumberCommonOptions, resolveFractionDigits } from "./currency"
+import { parseDecimalString } from "./decimalFormat"
+import { NumericValue, NumericValueType, resolveValueCodec } from "./numericValue"
+
+export type ExchangeRate = {
+  rate: number | string
+  asOf?: Date | number | null
+}
+
+export interface RateProvider {
+  getRate(from: string, to: string): ExchangeRate | null | Promise<ExchangeRate | null>
+}
+
+export type StaticRateTable = Record<string, Record<string, number | string>>
+
+export type StaticRateProviderOptions = {
+  asOf?: Date | number | null
+  inverse?: boolean
+}
+
+export type FractionDigitOptions = Omit<NumberCommonOptions, "locale">
+
+// The fraction options on the object itself size the result; `fromFractionOptions` gives the
+// scale of `value` when the source currency's digits were overridden.
+export type ConvertAmountOptions<T extends NumericValueType = "major"> = NumberCommonOptions & {
+  from: string
+  to: string
+  rate: number | string
+  valueType?: T
+  fromFractionOptions?: FractionDigitOptions
+}
+
+export function createStaticRateProvider(
+  rates: StaticRateTable,
+  options: StaticRateProviderOptions = {}
+): RateProvider {
+  const { asOf = null, inverse = true } = options
+
+  return {
+    getRate(from, to) {
+      const source = from.toUpperCase()
+      const target = to.toUpperCase()
+      if (source === target) return { rate: 1, asOf }
+
+      const direct = rates[source]?.[target]
+      if (direct != null) return { rate: direct, asOf }
+
+      const reverse = inverse ? rates[target]?.[source] : undefined
+      if (reverse != null && Number(reverse) !== 0) return { rate: 1 / Number(reverse), asOf }
+
+      return null
+    },
+  }
+}
+
+// Multiplies in scaled integers so the only rounding is the final one to the target's digits.
+export function convertAmount<T extends NumericValueType = "major">(
+  value: NumericValue<T> | null,
+  options: ConvertAmountOptions<T>
+): NumericValue<T> | null {
+  const { from, to, rate, valueType, fromFractionOptions, ...fractionOptions } = options
+  if (value == null) return null
+
+  const rateParts = parseDecimalString(rateToDecimal(rate))
+  if (!rateParts) throw new Error(`Invalid exchange rate: ${rate}`)
+
+  const codec = resolveValueCodec(valueType)
+  const { maxFractionDigits: fromScale } = resolveFractionDigits({
+    ...fromFractionOptions,
+    currency: from,
+  })
+  const { maxFractionDigits: toScale } = resolveFractionDigits({ ...fractionOptions, currency: to })
+
+  const amount = codec.toDigits(value, fromScale)
+  if (!amount.digits) return null
+
+  const product = BigInt(amount.digits) * BigInt(`${rateParts.integer}${rateParts.fraction}`)
+  const productScale = fromScale + rateParts.fraction.length
+  const digits = roundScaled(product, productScale - toScale)
+
+  return codec.fromDigits(
+    { digits, isNegative: amount.isNegative !== rateParts.isNegative && digits !== "0" },
+    toScale
+  )
+}
+
+export function isRateStale(
+  asOf: Date | number | null | undefined,
+  staleAfter: number | undefined,
+  now: number = Date.now()
+): boolean {
+  const time = toTimestamp(asOf)
+  if (time === null || staleAfter == null) return false
+  return now - time > staleAfter
+}
+
+function rateToDecimal(rate: number | string) {
+  if (typeof rate === "string") return rate
+  if (!Number.isFinite(rate)) return ""
+  const text = String(rate)
+  return /e/i.test(text) ? rate.toFixed(20) : text
+}
+
+function toTimestamp(asOf: Date | number | null | undefined): number | null {
+  if (asOf == null) return null
+  const time = typeof asOf === "number" ? asOf : asOf.getTime()
+  return Number.isNaN(time) ? null : time
+}
+
+// Rounds half away from zero after dropping `places` decimal digits.
+function roundScaled(value: bigint, places: number): string {
+  if (places <= 0) return String(value * BigInt(10) ** BigInt(-places))
+
+  const divisor = BigInt(10) ** BigInt(places)
+  const quotient = value / divisor
+  const remainder = value % divisor
+  return String(remainder * BigInt(2) >= divisor ? quotient + BigInt(1) : quotient)
+}
@@ -0,0 +1,73 @@
+export type NumberFormatCacheStats = {
+  size: number
+  maxSize: number
+  hits: number
+  misses: number
+}
+
+export const DEFAULT_NUMBER_FORMAT_CACHE_SIZE = 64
+
+const cache = new Map<string, Intl.NumberFormat>()
+let maxSize = DEFAULT_NUMBER_FORMAT_CACHE_SIZE
+let hits = 0
+let misses = 0
+
+// Building an Intl.NumberFormat is far slower than using one, so formatters are shared
+// per locale and options and the least recently used ones are dropped past `maxSize`.
+export function getNumberFormat(
+  locale: string | undefined,
+  options: Intl.NumberFormatOptions = {}
+): Intl.NumberFormat {
+  const key = cacheKey(locale, options)
+  const cached = cache.get(key)
+
+  if (cached) {
+    hits++
+    cache.delete(key)
+    cache.set(key, cached)
+    return cached
+  }
+
+  misses++
+  const formatter = new Intl.NumberFormat(locale, options)
+  if (maxSize === 0) return formatter
+
+  cache.set(key, formatter)
+  trimCache()
+  return formatter
+}
+
+export function setNumberFormatCacheSize(size: number): void {
+  if (!Number.isInteger(size) || size < 0) {
+    throw new Error(`Invalid formatter cache size: ${size}`)
+  }
+  maxSize = size
+  trimCache()
+}
+
+export function clearNumberFormatCache(): void {
+  cache.clear()
+  hits = 0
+  misses = 0
+}
+
+export function getNumberFormatCacheStats(): NumberFormatCacheStats {
+  return { size: cache.size, maxSize, hits, misses }
+}
+
+function trimCache() {
+  while (cache.size > maxSize) {
+    const oldest = cache.keys().next().value
+    if (oldest === undefined) return
+    cache.delete(oldest)
+  }
+}
+
+function cacheKey(locale: string | undefined, options: Intl.NumberFormatOptions) {
+  const entries = Object.keys(options)
+    .sort()
+    .filter((name) => options[name as keyof Intl.NumberFormatOptions] !== undefined)
+    .map((name) => `${name}=${String(options[name as keyof Intl.NumberFormatOptions])}`)
+
+  return `${locale ?? ""}|${entries.join(",")}`
+}
@@ -0,0 +1,335 @@
+// Separators, grouping and currency layout for the built-in formatting engine, taken from
+// CLDR. Each locale is its own export so apps only bundle the ones they register.
+
+export type LocaleNumberData = {
+  locale: string
+  decimal: string
+  group: string
+  // Digits in the last group and in every group before it (3, 2 for lakh/crore grouping).
+  grouping: [number, number]
+  minimumGroupingDigits: number
+  minusSign: string
+  // "¤" stands for the currency symbol, "#" for the number and "-" for `minusSign`.
+  currencyPattern: string
+  negativePattern: string
+  accountingPattern: string
+  currencySymbols?: Record<string, string>
+}
+
+export const enUS: LocaleNumberData = {
+  locale: "en-US",
+  decimal: ".",
+  group: ",",
+  grouping: [3, 3],
+  minimumGroupingDigits: 1,
+  minusSign: "-",
+  currencyPattern: "¤#",
+  negativePattern: "-¤#",
+  accountingPattern: "(¤#)",
+}
+
+export const enGB: LocaleNumberData = {
+  locale: "en-GB",
+  decimal: ".",
+  group: ",",
+  grouping: [3, 3],
+  minimumGroupingDigits: 1,
+  minusSign: "-",
+  currencyPattern: "¤#",
+  negativePattern: "-¤#",
+  accountingPattern: "(¤#)",
+  currencySymbols: {
+    USD: "US$",
+    JPY: "JP¥",
+  },
+}
+
+export const enIN: LocaleNumberData = {
+  locale: "en-IN",
+  decimal: ".",
+  group: ",",
+  grouping: [3, 2],
+  minimumGroupingDigits: 1,
+  minusSign: "-",
+  currencyPattern: "¤#",
+  negativePattern: "-¤#",
+  accountingPattern: "(¤#)",
+  currencySymbols: {
+    JPY: "JP¥",
+  },
+}
+
+export const deDE: LocaleNumberData = {
+  locale: "de-DE",
+  decimal: ",",
+  group: ".",
+  grouping: [3, 3],
+  minimumGroupingDigits: 1,
+  minusSign: "-",
+  currencyPattern: "#\u00a0¤",
+  negativePattern: "-#\u00a0¤",
+  accountingPattern: "-#\u00a0¤",
+  currencySymbols: {
+    AUD: "AU$",
+  },
+}
+
+export const deCH: LocaleNumberData = {
+  locale: "de-CH",
+  decimal: ".",
+  group: "\u2019",
+  grouping: [3, 3],
+  minimumGroupingDigits: 1,
+  minusSign: "-",
+  currencyPattern: "¤\u00a0#",
+  negativePattern: "¤-#",
+  accountingPattern: "¤-#",
+  currencySymbols: {
+    EUR: "EUR",
+    AUD: "AU$",
+  },
+}
+
+export const frFR: LocaleNumberData = {
+  locale: "fr-FR",
+  decimal: ",",
+  group: "\u202f",
+  grouping: [3, 3],
+  minimumGroupingDigits: 1,
+  minusSign: "-",
+  currencyPattern: "#\u00a0¤",
+  negativePattern: "-#\u00a0¤",
+  accountingPattern: "(#\u00a0¤)",
+  currencySymbols: {
+    USD: "$US",
+    GBP: "£GB",
+    JPY: "JPY",
+    CNY: "CNY",
+    CAD: "$CA",
+    AUD: "$AU",
+    MXN: "$MX",
+  },
+}
+
+export const esES: LocaleNumberData = {
+  locale: "es-ES",
+  decimal: ",",
+  group: ".",
+  grouping: [3, 3],
+  minimumGroupingDigits: 2,
+  minusSign: "-",
+  currencyPattern: "#\u00a0¤",
+  negativePattern: "-#\u00a0¤",
+  accountingPattern: "-#\u00a0¤",
+  currencySymbols: {
+    USD: "US$",
+    GBP: "GBP",
+    JPY: "JPY",
+    CNY: "CNY",
+    INR: "INR",
+    CAD: "CAD",
+    AUD: "AUD",
+    BRL: "BRL",
+    KRW: "KRW",
+    MXN: "MXN",
+  },
+}
+
+export const itIT: LocaleNumberData = {
+  locale: "it-IT",
+  decimal: ",",
+  group: ".",
+  grouping: [3, 3],
+  minimumGroupingDigits: 2,
+  minusSign: "-",
+  currencyPattern: "#\u00a0¤",
+  negativePattern: "-#\u00a0¤",
+  accountingPattern: "-#\u00a0¤",
+  currencySymbols: {
+    USD: "USD",
+    JPY: "JPY",
+    INR: "INR",
+    BRL: "BRL",
+    KRW: "KRW",
+    MXN: "MXN",
+  },
+}
+
+export const ptBR: LocaleNumberData = {
+  locale: "pt-BR",
+  decimal: ",",
+  group: ".",
+  grouping: [3, 3],
+  minimumGroupingDigits: 1,
+  minusSign: "-",
+  currencyPattern: "¤\u00a0#",
+  negativePattern: "-¤\u00a0#",
+  accountingPattern: "-¤\u00a0#",
+  currencySymbols: {
+    USD: "US$",
+    JPY: "JP¥",
+    AUD: "AU$",
+  },
+}
+
+export const nlNL: LocaleNumberData = {
+  locale: "nl-NL",
+  decimal: ",",
+  group: ".",
+  grouping: [3, 3],
+  minimumGroupingDigits: 1,
+  minusSign: "-",
+  currencyPattern: "¤\u00a0#",
+  negativePattern: "¤\u00a0-#",
+  accountingPattern: "(¤\u00a0#)",
+  currencySymbols: {
+    USD: "US$",
+    JPY: "JP¥",
+    CAD: "C$",
+    AUD: "AU$",
+  },
+}
+
+export const plPL: LocaleNumberData = {
+  locale: "pl-PL",
+  decimal: ",",
+  group: "\u00a0",
+  grouping: [3, 3],
+  minimumGroupingDigits: 2,
+  minusSign: "-",
+  currencyPattern: "#\u00a0¤",
+  negativePattern: "-#\u00a0¤",
+  accountingPattern: "(#\u00a0¤)",
+  currencySymbols: {
+    USD: "USD",
+    GBP: "GBP",
+    JPY: "JPY",
+    CNY: "CNY",
+    INR: "INR",
+    CAD: "CAD",
+    AUD: "AUD",
+    PLN: "zł",
+    KRW: "KRW",
+    MXN: "MXN",
+  },
+}
+
+export const ruRU: LocaleNumberData = {
+  locale: "ru-RU",
+  decimal: ",",
+  group: "\u00a0",
+  grouping: [3, 3],
+  minimumGroupingDigits: 1,
+  minusSign: "-",
+  currencyPattern: "#\u00a0¤",
+  negativePattern: "-#\u00a0¤",
+  accountingPattern: "-#\u00a0¤",
+  currencySymbols: {
+    RUB: "₽",
+  },
+}
+
+export const svSE: LocaleNumberData = {
+  locale: "sv-SE",
+  decimal: ",",
+  group: "\u00a0",
+  grouping: [3, 3],
+  minimumGroupingDigits: 1,
+  minusSign: "\u2212",
+  currencyPattern: "#\u00a0¤",
+  negativePattern: "-#\u00a0¤",
+  accountingPattern: "-#\u00a0¤",
+  currencySymbols: {
+    USD: "US$",
+    GBP: "GBP",
+    JPY: "JPY",
+    CNY: "CNY",
+    INR: "INR",
+    AUD: "AUD",
+    BRL: "BR$",
+    SEK: "kr",
+    KRW: "KRW",
+  },
+}
+
+export const trTR: LocaleNumberData = {
+  locale: "tr-TR",
+  decimal: ",",
+  group: ".",
+  grouping: [3, 3],
+  minimumGroupingDigits: 1,
+  minusSign: "-",
+  currencyPattern: "¤#",
+  negativePattern: "-¤#",
+  accountingPattern: "-¤#",
+  currencySymbols: {
+    AUD: "AU$",
+    TRY: "₺",
+  },
+}
+
+export const jaJP: LocaleNumberData = {
+  locale: "ja-JP",
+  decimal: ".",
+  group: ",",
+  grouping: [3, 3],
+  minimumGroupingDigits: 1,
+  minusSign: "-",
+  currencyPattern: "¤#",
+  negativePattern: "-¤#",
+  accountingPattern: "(¤#)",
+  currencySymbols: {
+    JPY: "￥",
+    CNY: "元",
+  },
+}
+
+export const zhCN: LocaleNumberData = {
+  locale: "zh-CN",
+  decimal: ".",
+  group: ",",
+  grouping: [3, 3],
+  minimumGroupingDigits: 1,
+  minusSign: "-",
+  currencyPattern: "¤#",
+  negativePattern: "-¤#",
+  accountingPattern: "(¤#)",
+  currencySymbols: {
+    USD: "US$",
+    JPY: "JP¥",
+    CNY: "¥",
+    AUD: "AU$",
+  },
+}
+
+export const koKR: LocaleNumberData = {
+  locale: "ko-KR",
+  decimal: ".",
+  group: ",",
+  grouping: [3, 3],
+  minimumGroupingDigits: 1,
+  minusSign: "-",
+  currencyPattern: "¤#",
+  negativePattern: "-¤#",
+  accountingPattern: "(¤#)",
+  currencySymbols: {
+    USD: "US$",
+    JPY: "JP¥",
+    AUD: "AU$",
+  },
+}
+
+export const hiIN: LocaleNumberData = {
+  locale: "hi-IN",
+  decimal: ".",
+  group: ",",
+  grouping: [3, 2],
+  minimumGroupingDigits: 1,
+  minusSign: "-",
+  currencyPattern: "¤#",
+  negativePattern: "-¤#",
+  accountingPattern: "-¤#",
+  currencySymbols: {
+    JPY: "JP¥",
+  },
+}
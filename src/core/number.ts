@@ -0,0 +1,58 @@
+import { NumberCommonOptions, NumberValidationOptions, resolveFractionDigits } from "./currency"
+import { formatNumericValue, isNumericInput } from "./decimalFormat"
+import { getNumberFormat } from "./formatterCache"
+
+export type NumberFormatterMode = "number" | "none"
+
+export type NumberStyleOptions = {
+  unit?: string
+  unitDisplay?: "short" | "long" | "narrow"
+  useGrouping?: boolean
+}
+
+export type NumberNotationOptions = {
+  notation?: "standard" | "compact"
+  compactDisplay?: "short" | "long"
+}
+
+export type NumberFormattingOptions = NumberCommonOptions & NumberStyleOptions & NumberNotationOptions
+
+export type NumberInputParsingOptions = NumberCommonOptions & NumberStyleOptions & NumberValidationOptions
+
+export function formatNumber(
+  value: number | string | null,
+  options: NumberFormattingOptions = {}
+): string {
+  const {
+    locale,
+    unit,
+    unitDisplay,
+    useGrouping,
+    notation,
+    compactDisplay,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+  } = options
+  if (!isNumericInput(value)) return ""
+
+  const hasFractionOptions =
+    typeof fractionDigits === "number" ||
+    typeof minimumFractionDigits === "number" ||
+    typeof maximumFractionDigits === "number"
+  const { minFractionDigits, maxFractionDigits } = resolveFractionDigits(options)
+
+  const formatter = getNumberFormat(locale, {
+    style: unit ? "unit" : "decimal",
+    unit,
+    unitDisplay,
+    useGrouping,
+    notation,
+    compactDisplay,
+    ...(notation === "compact" && !hasFractionOptions
+      ? {}
+      : { minimumFractionDigits: minFractionDigits, maximumFractionDigits: maxFractionDigits }),
+  })
+
+  return formatNumericValue(formatter, value)
+}
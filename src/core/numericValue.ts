@@ -0,0 +1,142 @@
+import { SignedDigits, digitsFromValue, digitsToDecimalString } from "./currency"
+import { parseDecimalString, roundDecimalParts } from "./decimalFormat"
+import { ValidationMessages } from "./validation"
+
+export type NumericValueTypeMap = {
+  major: number
+  minor: number
+  string: string
+  bigint: bigint
+}
+
+export type NumericValueType = keyof NumericValueTypeMap
+
+export type NumericValue<T extends NumericValueType> = NumericValueTypeMap[T]
+
+export type NumericValueOptions<T extends NumericValueType> = {
+  valueType?: T
+  minimumValue?: NumericValue<T>
+  maximumValue?: NumericValue<T>
+  validate?: (value: NumericValue<T> | null) => string | null
+  messages?: ValidationMessages
+}
+
+export type NumericValueCodec<TValue> = {
+  toDigits: (value: TValue, fractionDigits: number) => SignedDigits
+  fromDigits: (amount: SignedDigits, fractionDigits: number) => TValue
+}
+
+export type DigitBounds = {
+  allowNegative: boolean
+  minimum?: SignedDigits
+  maximum?: SignedDigits
+}
+
+const ZERO: SignedDigits = { digits: "0", isNegative: false }
+
+export const majorUnitCodec: NumericValueCodec<number> = {
+  toDigits: (value, fractionDigits) => digitsFromValue(value, fractionDigits),
+  fromDigits: ({ digits, isNegative }, fractionDigits) =>
+    Number(`${isNegative ? "-" : ""}${digitsToDecimalString(digits, fractionDigits)}`),
+}
+
+export const minorUnitCodec: NumericValueCodec<number> = {
+  toDigits: (value) => digitsFromValue(value, 0),
+  fromDigits: ({ digits, isNegative }) => {
+    const units = Number(digits)
+    return isNegative && units !== 0 ? -units : units
+  },
+}
+
+export const decimalStringCodec: NumericValueCodec<string> = {
+  toDigits: (value, fractionDigits) => {
+    const parts = parseDecimalString(value)
+    if (!parts) return { digits: "", isNegative: false }
+
+    const { integer, fraction } = roundDecimalParts(parts, fractionDigits)
+    return { digits: trimLeadingZeros(`${integer}${fraction}`) || "0", isNegative: parts.isNegative }
+  },
+  fromDigits: (amount, fractionDigits) =>
+    `${signOf(amount) < 0 ? "-" : ""}${digitsToDecimalString(amount.digits, fractionDigits)}`,
+}
+
+export const bigintMinorUnitCodec: NumericValueCodec<bigint> = {
+  toDigits: (value) => ({ digits: String(value < 0 ? -value : value), isNegative: value < 0 }),
+  fromDigits: ({ digits, isNegative }) => {
+    const units = BigInt(digits)
+    return isNegative ? -units : units
+  },
+}
+
+const VALUE_CODECS: { [T in NumericValueType]: NumericValueCodec<NumericValueTypeMap[T]> } = {
+  major: majorUnitCodec,
+  minor: minorUnitCodec,
+  string: decimalStringCodec,
+  bigint: bigintMinorUnitCodec,
+}
+
+export function resolveValueCodec<T extends NumericValueType = "major">(
+  valueType?: T
+): NumericValueCodec<NumericValue<T>> {
+  return VALUE_CODECS[valueType ?? "major"] as NumericValueCodec<NumericValue<T>>
+}
+
+export function toFormattableValue<T extends NumericValueType = "major">(
+  value: NumericValue<T>,
+  valueType: T | undefined,
+  fractionDigits: number
+): number | string {
+  if (typeof value === "number" && valueType !== "minor") return value
+  if (typeof value === "string") return value
+
+  const { digits, isNegative } = resolveValueCodec(valueType).toDigits(value, fractionDigits)
+  return `${isNegative ? "-" : ""}${digitsToDecimalString(digits, fractionDigits)}`
+}
+
+export function compareSignedDigits(a: SignedDigits, b: SignedDigits): number {
+  const signA = signOf(a)
+  const signB = signOf(b)
+  if (signA !== signB) return signA - signB
+
+  const magnitudeA = trimLeadingZeros(a.digits)
+  const magnitudeB = trimLeadingZeros(b.digits)
+  const magnitude =
+    magnitudeA.length !== magnitudeB.length
+      ? Math.sign(magnitudeA.length - magnitudeB.length)
+      : magnitudeA < magnitudeB
+        ? -1
+        : magnitudeA > magnitudeB
+          ? 1
+          : 0
+
+  return signA < 0 ? -magnitude : magnitude
+}
+
+export function clampDigits(amount: SignedDigits, bounds: DigitBounds): SignedDigits {
+  const { allowNegative, minimum, maximum } = bounds
+
+  let next = allowNegative ? amount : { digits: amount.digits, isNegative: false }
+
+  if (!allowNegative && signOf(amount) < 0) {
+    next = minimum ?? ZERO
+  }
+
+  if (minimum && compareSignedDigits(next, minimum) < 0) {
+    next = minimum
+  }
+
+  if (maximum && compareSignedDigits(next, maximum) > 0) {
+    next = maximum
+  }
+
+  return next
+}
+
+function signOf(amount: SignedDigits) {
+  if (!trimLeadingZeros(amount.digits)) return 0
+  return amount.isNegative ? -1 : 1
+}
+
+function trimLeadingZeros(digits: string) {
+  return digits.replace(/^0+/, "")
+}
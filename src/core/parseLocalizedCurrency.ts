@@ -0,0 +1,189 @@
+import { getCurrencyInfo } from "./currencyRegistry"
+import { getNumberFormat } from "./formatterCache"
+
+export type LocalizedCurrencyOptions = {
+  locale?: string
+  currency?: string
+}
+
+export type LocalizedCurrencyParseResult = {
+  value: number | null
+  decimal: string | null
+  error: string | null
+}
+
+type LocaleSymbols = {
+  group: string
+  decimal: string
+  minusSign: string
+  currencySymbols: string[]
+  digits: string[]
+}
+
+const SPACES = /\s/g
+const BIDI_MARKS = /[\u200e\u200f\u061c]/g
+const MINUS_SIGNS = ["-", "\u2212"]
+const GROUP_ONLY = [" ", "'", "\u2019"]
+
+export function parseLocalizedCurrency(
+  text: string,
+  options: LocalizedCurrencyOptions = {}
+): LocalizedCurrencyParseResult {
+  const symbols = resolveLocaleSymbols(options)
+  let body = toAsciiDigits(text, symbols.digits).replace(BIDI_MARKS, "").replace(SPACES, " ").trim()
+
+  if (!body) return { value: null, decimal: null, error: null }
+
+  for (const symbol of symbols.currencySymbols) {
+    body = body.split(symbol).join(" ")
+  }
+
+  let isNegative = false
+  const accounting = /^\((.*)\)$/.exec(body.trim())
+  if (accounting) {
+    isNegative = true
+    body = accounting[1]
+  }
+
+  for (const minus of [...MINUS_SIGNS, symbols.minusSign]) {
+    if (!minus || !body.includes(minus)) continue
+    isNegative = true
+    body = body.split(minus).join(" ")
+  }
+
+  const separatorChars = new Set([".", ",", ...GROUP_ONLY, symbols.group, symbols.decimal])
+  const isNumeric = (char: string) => /\d/.test(char) || separatorChars.has(char)
+
+  const chars = Array.from(body.replace(/^\+/, ""))
+  const first = chars.findIndex(isNumeric)
+  const last = chars.length - 1 - [...chars].reverse().findIndex(isNumeric)
+  const amount = first === -1 ? "" : chars.slice(first, last + 1).join("").trim()
+
+  if (!/\d/.test(amount) || !Array.from(amount).every(isNumeric)) {
+    return invalid("Invalid amount")
+  }
+
+  const decimalChar = resolveDecimalSeparator(amount, symbols)
+  if (decimalChar === undefined) {
+    return invalid("Ambiguous decimal separator")
+  }
+
+  const [integerText, fractionText = ""] =
+    decimalChar === null ? [amount] : splitOnce(amount, decimalChar)
+  const integer = readGroupedInteger(integerText)
+
+  if (integer === null || !/^\d*$/.test(fractionText)) {
+    return invalid("Invalid amount")
+  }
+
+  const normalizedInteger = integer.replace(/^0+(?=\d)/, "") || "0"
+  const decimal = `${isNegative ? "-" : ""}${normalizedInteger}${fractionText ? `.${fractionText}` : ""}`
+
+  return { value: Number(decimal), decimal, error: null }
+}
+
+// Returns the decimal separator, null when the amount has none, or undefined when it
+// cannot be told apart from a group separator.
+function resolveDecimalSeparator(amount: string, symbols: LocaleSymbols): string | null | undefined {
+  const separators = Array.from(amount).filter((char) => !/\d/.test(char))
+  const distinct = Array.from(new Set(separators))
+
+  if (distinct.length === 0) return null
+
+  const lastSeparator = separators[separators.length - 1]
+  const occurrences = separators.filter((char) => char === lastSeparator).length
+
+  if (distinct.length > 1) {
+    if (occurrences > 1 || GROUP_ONLY.includes(lastSeparator)) return null
+    return lastSeparator
+  }
+
+  if (GROUP_ONLY.includes(lastSeparator) || occurrences > 1) return null
+
+  const [before, after] = splitOnce(amount, lastSeparator)
+  const couldGroup = after.length === 3 && before.length >= 1 && before.length <= 3
+  if (!couldGroup) return lastSeparator
+
+  if (lastSeparator === symbols.decimal && lastSeparator !== symbols.group) return lastSeparator
+  if (lastSeparator === symbols.group) return null
+  return undefined
+}
+
+function readGroupedInteger(text: string): string | null {
+  const groups = text.split(/[^\d]/)
+  if (groups.length === 1) return groups[0]
+
+  const [head, ...rest] = groups
+  const valid =
+    head.length >= 1 &&
+    head.length <= 3 &&
+    rest.every((group, index) =>
+      index === rest.length - 1 ? group.length === 3 : group.length === 2 || group.length === 3
+    )
+
+  return valid ? groups.join("") : null
+}
+
+function resolveLocaleSymbols(options: LocalizedCurrencyOptions): LocaleSymbols {
+  const { locale, currency } = options
+  const formatter =
+    (currency && safeFormatter(locale, { style: "currency", currency })) || safeFormatter(locale, {})
+  const parts = formatter?.formatToParts(-1234567.5) ?? []
+  const find = (type: string) => parts.find((part) => part.type === type)?.value ?? ""
+
+  const info = getCurrencyInfo(currency)
+  const currencySymbols = currency
+    ? [
+        find("currency"),
+        info?.symbol ?? "",
+        info?.narrowSymbol ?? "",
+        safeFormatter(locale, { style: "currency", currency, currencyDisplay: "narrowSymbol" })
+          ?.formatToParts(1)
+          .find((part) => part.type === "currency")?.value ?? "",
+        currency.toUpperCase(),
+        currency.toLowerCase(),
+      ]
+        .filter(Boolean)
+        .sort((a, b) => b.length - a.length)
+    : []
+
+  const digitFormatter = safeFormatter(locale, { useGrouping: false })
+  const digits = Array.from({ length: 10 }, (_, digit) =>
+    digitFormatter ? digitFormatter.format(digit) : String(digit)
+  )
+
+  return {
+    group: find("group").replace(SPACES, " "),
+    decimal: find("decimal") || ".",
+    minusSign: find("minusSign").replace(BIDI_MARKS, ""),
+    currencySymbols,
+    digits,
+  }
+}
+
+function safeFormatter(locale: string | undefined, options: Intl.NumberFormatOptions) {
+  try {
+    return getNumberFormat(locale, options)
+  } catch (error) {
+    return null
+  }
+}
+
+function toAsciiDigits(text: string, digits: string[]) {
+  if (digits[0] === "0") return text
+  return Array.from(text)
+    .map((char) => {
+      const index = digits.indexOf(char)
+      return index === -1 ? char : String(index)
+    })
+    .join("")
+}
+
+function splitOnce(text: string, separator: string): [string, string] {
+  const index = text.indexOf(separator)
+  return [text.slice(0, index), text.slice(index + separator.length)]
+}
+
+function invalid(error: string): LocalizedCurrencyParseResult {
+  return { value: null, decimal: null, error }
+}
@@ -0,0 +1,62 @@
+import { NumberCommonOptions, NumberValidationOptions, resolveFractionDigits } from "./currency"
+import { formatNumericValue, isNumericInput, shiftDecimalString } from "./decimalFormat"
+import { getNumberFormat } from "./formatterCache"
+
+export type PercentFormatterMode = "percent" | "none"
+
+export type PercentValueScale = "ratio" | "percent"
+
+export type PercentFormattingOptions = NumberCommonOptions & {
+  valueScale?: PercentValueScale
+}
+
+export type PercentParsingOptions = PercentFormattingOptions & NumberValidationOptions
+
+const PERCENT_FACTOR = 100
+
+export function formatPercent(
+  value: number | null,
+  options: PercentFormattingOptions = {}
+): string {
+  const { locale, valueScale = "ratio" } = options
+  const { minFractionDigits, maxFractionDigits } = resolveFractionDigits(options)
+  if (value == null || Number.isNaN(value)) return ""
+
+  return formatPercentPoints(toPercentPoints(value, valueScale), {
+    locale,
+    minimumFractionDigits: minFractionDigits,
+    maximumFractionDigits: maxFractionDigits,
+  })
+}
+
+export function formatPercentPoints(
+  points: number | string | null,
+  options: { locale?: string; minimumFractionDigits: number; maximumFractionDigits: number }
+): string {
+  const { locale, minimumFractionDigits, maximumFractionDigits } = options
+  if (!isNumericInput(points)) return ""
+
+  const formatter = getNumberFormat(locale, {
+    style: "percent",
+    minimumFractionDigits,
+    maximumFractionDigits,
+  })
+
+  return formatNumericValue(
+    formatter,
+    typeof points === "string" ? shiftDecimalString(points, -2) : points / PERCENT_FACTOR
+  )
+}
+
+export function toPercentPoints(value: number, valueScale: PercentValueScale): number {
+  return valueScale === "ratio" ? value * PERCENT_FACTOR : value
+}
+
+export function fromPercentPoints(
+  points: number,
+  valueScale: PercentValueScale,
+  fractionDigits: number
+): number {
+  if (valueScale === "percent") return points
+  return Number((points / PERCENT_FACTOR).toFixed(fractionDigits + 2))
+}
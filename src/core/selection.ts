@@ -0,0 +1,102 @@
+import { useCallback, useRef, useState } from "react"
+
+export type TextSelection = {
+  start: number
+  end: number
+}
+
+export function collapsedSelection(position: number): TextSelection {
+  return { start: position, end: position }
+}
+
+export function useTextSelection(initialText: string) {
+  const [selection, setSelectionState] = useState<TextSelection>(() =>
+    collapsedSelection(initialText.length)
+  )
+  const selectionRef = useRef(selection)
+
+  const setSelection = useCallback((next: TextSelection) => {
+    const current = selectionRef.current
+    if (current.start === next.start && current.end === next.end) return
+    selectionRef.current = next
+    setSelectionState(next)
+  }, [])
+
+  return { selection, selectionRef, setSelection }
+}
+
+// Where the caret sits in the raw input after the user replaced `selection` in `previousText`.
+export function caretAfterEdit(
+  previousText: string,
+  selection: TextSelection,
+  inputText: string
+): number {
+  const caret = selection.end + inputText.length - previousText.length
+  return Math.min(Math.max(caret, 0), inputText.length)
+}
+
+export function mapCaret(
+  sourceText: string,
+  caret: number,
+  targetText: string,
+  isSignificant: (char: string) => boolean
+): number {
+  if (caret >= sourceText.length) return targetText.length
+
+  let count = 0
+  for (let index = 0; index < caret; index++) {
+    if (isSignificant(sourceText[index])) count++
+  }
+
+  let position = 0
+  if (count > 0) {
+    let seen = 0
+    position = targetText.length
+    for (let index = 0; index < targetText.length; index++) {
+      if (!isSignificant(targetText[index])) continue
+      seen++
+      if (seen === count) {
+        position = index + 1
+        break
+      }
+    }
+  } else {
+    while (position < targetText.length && !isSignificant(targetText[position])) position++
+  }
+
+  const typed = sourceText[caret - 1]
+  if (typed !== undefined && !isSignificant(typed) && targetText[position] === typed) {
+    position++
+  }
+
+  return position
+}
+
+// Backspacing over a separator that the formatter puts straight back should remove
+// the character before it instead, otherwise the caret gets stuck.
+export function skipLiteralDeletion(
+  previousText: string,
+  inputText: string,
+  caret: number,
+  isSignificant: (char: string) => boolean
+): { text: string; caret: number } | null {
+  if (inputText.length !== previousText.length - 1) return null
+
+  const removed = previousText[caret]
+  if (removed === undefined || isSignificant(removed)) return null
+  if (`${previousText.slice(0, caret)}${previousText.slice(caret + 1)}` !== inputText) return null
+
+  let index = caret - 1
+  while (index >= 0 && !isSignificant(inputText[index])) index--
+  if (index < 0) return null
+
+  return { text: `${inputText.slice(0, index)}${inputText.slice(index + 1)}`, caret: index }
+}
+
+export function isDigit(char: string) {
+  return char >= "0" && char <= "9"
+}
+
+export function isAlphanumeric(char: string) {
+  return /[A-Za-z0-9]/.test(char)
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from "react"
+
+export type AsyncValidator<TValue> = (
+  value: TValue | null,
+  context: { signal: AbortSignal }
+) => Promise<string | null | undefined>
+
+export type AsyncValidationOptions<TValue> = {
+  validateAsync?: AsyncValidator<TValue>
+  validateDebounce?: number
+}
+
+export type AsyncValidationState = {
+  error: string | null
+  validating: boolean
+}
+
+export const DEFAULT_VALIDATE_DEBOUNCE = 300
+
+type SettledValidation<TValue> = {
+  value: TValue | null
+  error: string | null
+}
+
+// Runs `validateAsync` once the value has been still for `validateDebounce` ms. A newer value
+// aborts the pending call's signal and its result is dropped, so only the latest value's
+// result is ever reported. An empty value is not sent. A rejection (e.g. a network failure)
+// counts as no result rather than a field error. The latest validator is read from a ref, so
+// an inline function does not restart the wait on every render.
+export function useAsyncValidation<TValue>(
+  value: TValue | null,
+  options: AsyncValidationOptions<TValue>
+): AsyncValidationState {
+  const { validateAsync, validateDebounce = DEFAULT_VALIDATE_DEBOUNCE } = options
+  const [settled, setSettled] = useState<SettledValidation<TValue> | null>(null)
+  const validatorRef = useRef(validateAsync)
+  validatorRef.current = validateAsync
+  const enabled = Boolean(validateAsync) && value != null
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const controller = new AbortController()
+    const settle = (error: string | null) => {
+      if (controller.signal.aborted) return
+      setSettled({ value, error })
+    }
+
+    const timer = setTimeout(() => {
+      const validator = validatorRef.current
+      if (!validator) return
+
+      try {
+        validator(value, { signal: controller.signal }).then(
+          (error) => settle(error ?? null),
+          () => settle(null)
+        )
+      } catch (error) {
+        settle(null)
+      }
+    }, validateDebounce)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [value, enabled, validateDebounce])
+
+  if (!enabled) return { error: null, validating: false }
+
+  const current = settled && Object.is(settled.value, value) ? settled : null
+
+  return { error: current?.error ?? null, validating: !current }
+}
@@ -1,9 +1,21 @@
-import { useCallback, useEffect, useState } from "react"
-import { Formatter } from "./Formatter.types"
+import { useCallback, useEffect, useRef, useState } from "react"
+import { FormatOn, Formatter } from "./Formatter.types"
+import {
+  TextSelection,
+  caretAfterEdit,
+  collapsedSelection,
+  isAlphanumeric,
+  mapCaret,
+  skipLiteralDeletion,
+  useTextSelection,
+} from "./selection"
+import { AsyncValidationOptions, useAsyncValidation } from "./useAsyncValidation"
 
-export type UseMaskedInputOptions<TValue> = {
+export type UseMaskedInputOptions<TValue> = AsyncValidationOptions<TValue> & {
   formatter: Formatter<TValue>
   initialValue?: TValue | null
+  formatOn?: FormatOn
+  onCommit?: (value: TValue | null) => void
 }
 
 export type UseMaskedInputResult<TValue> = {
@@ -11,14 +23,27 @@ export type UseMaskedInputResult<TValue> = {
   text: string
   rawValue: string
   error: string | null
+  validating: boolean
+  selection: TextSelection
   handleChangeText: (text: string) => void
+  handleSelectionChange: (selection: TextSelection) => void
+  commit: () => void
   setValue: (value: TValue | null) => void
 }
 
+const DRAFT_PUNCTUATION = "+-()/.,:' "
+
 export function useMaskedInput<TValue>(
   options: UseMaskedInputOptions<TValue>
 ): UseMaskedInputResult<TValue> {
-  const { formatter, initialValue = null } = options
+  const {
+    formatter,
+    initialValue = null,
+    validateAsync,
+    validateDebounce,
+    formatOn = "change",
+    onCommit,
+  } = options
 
   const initialFormatted = formatter.format(initialValue)
 
@@ -27,41 +52,126 @@ export function useMaskedInput<TValue>(
   const [rawValue, setRawValue] = useState<string>(initialFormatted.rawValue)
   const [error, setError] = useState<string | null>(null)
 
+  const { selection, selectionRef, setSelection } = useTextSelection(initialFormatted.text)
+
+  const valueRef = useRef(value)
+  const textRef = useRef(text)
+  const formatterRef = useRef(formatter)
+  const draftRef = useRef(false)
+  const dirtyRef = useRef(false)
+  const onCommitRef = useRef(onCommit)
+  onCommitRef.current = onCommit
+
+  useEffect(() => {
+    valueRef.current = value
+  }, [value])
+
   useEffect(() => {
-    const formatted = formatter.format(value)
+    if (formatterRef.current === formatter) return
+    formatterRef.current = formatter
+    if (draftRef.current) return
+    const formatted = formatter.format(valueRef.current)
+    textRef.current = formatted.text
     setText(formatted.text)
     setRawValue(formatted.rawValue)
-  }, [value, formatter])
+    setSelection(collapsedSelection(formatted.text.length))
+  }, [formatter, setSelection])
 
   const handleChangeText = useCallback(
     (inputText: string) => {
-      const parsed = formatter.parse(inputText)
+      dirtyRef.current = true
+      if (formatOn === "blur") {
+        const caret = caretAfterEdit(textRef.current, selectionRef.current, inputText)
+        const isKept = draftCharFilter(textRef.current)
+        const draft = Array.from(inputText).filter(isKept).join("")
+        draftRef.current = true
+        textRef.current = draft
+        setText(draft)
+        setSelection(collapsedSelection(mapCaret(inputText, caret, draft, isKept)))
+        return
+      }
+
+      const previousText = textRef.current
+      const caret = caretAfterEdit(previousText, selectionRef.current, inputText)
+
+      let source = inputText
+      let parsed = formatter.parse(inputText)
+      let nextText = parsed.text ?? formatter.format(parsed.value).text
+
+      const retry =
+        nextText === previousText
+          ? skipLiteralDeletion(previousText, inputText, caret, isAlphanumeric)
+          : null
+      if (retry) {
+        source = retry.text
+        parsed = formatter.parse(retry.text)
+        nextText = parsed.text ?? formatter.format(parsed.value).text
+      }
+
+      textRef.current = nextText
       setValueState(parsed.value)
       setRawValue(parsed.rawValue)
       setError(parsed.error ?? null)
-      const formatted = formatter.format(parsed.value)
-      setText(formatted.text)
+      setText(nextText)
+      setSelection(
+        collapsedSelection(mapCaret(source, retry ? retry.caret : caret, nextText, isAlphanumeric))
+      )
     },
-    [formatter]
+    [formatOn, formatter, selectionRef, setSelection]
   )
 
+  // Call from onBlur and onSubmitEditing. In blur mode the typed text is only parsed here.
+  const commit = useCallback(() => {
+    if (draftRef.current) {
+      draftRef.current = false
+      const parsed = formatter.parse(textRef.current)
+      const nextText = parsed.text ?? formatter.format(parsed.value).text
+      textRef.current = nextText
+      valueRef.current = parsed.value
+      setValueState(parsed.value)
+      setRawValue(parsed.rawValue)
+      setError(parsed.error ?? null)
+      setText(nextText)
+      setSelection(collapsedSelection(nextText.length))
+    }
+
+    if (!dirtyRef.current) return
+    dirtyRef.current = false
+    onCommitRef.current?.(valueRef.current)
+  }, [formatter, setSelection])
+
   const setValue = useCallback(
     (next: TValue | null) => {
       setValueState(next)
       const formatted = formatter.format(next)
+      textRef.current = formatted.text
       setText(formatted.text)
       setRawValue(formatted.rawValue)
       setError(null)
+      setSelection(collapsedSelection(formatted.text.length))
     },
-    [formatter]
+    [formatter, setSelection]
   )
 
+  const pending = useAsyncValidation(value, { validateAsync, validateDebounce })
+
   return {
     value,
     text,
     rawValue,
-    error,
+    error: error ?? pending.error,
+    validating: pending.validating,
+    selection,
     handleChangeText,
+    handleSelectionChange: setSelection,
+    commit,
     setValue,
   }
 }
+
+// A blur-mode draft keeps letters, digits, common mask punctuation and any other character
+// already shown in the field (the formatter's own literals), and drops the rest.
+function draftCharFilter(shownText: string) {
+  return (char: string) =>
+    isAlphanumeric(char) || DRAFT_PUNCTUATION.includes(char) || shownText.includes(char)
+}
@@ -0,0 +1,69 @@
+export type ValidationErrorCode = "maxDigits" | "negative" | "min" | "max" | "custom"
+
+export type ValidationErrorParams = Record<string, unknown>
+
+export type ValidationError = {
+  code: ValidationErrorCode
+  params: ValidationErrorParams
+  message: string
+}
+
+export type ValidationMessage = string | ((params: ValidationErrorParams) => string)
+
+// A map of templates ("Maximal {maxDigits} Ziffern") or functions per code, or one function
+// for every code. Returning nothing from the function keeps the English default.
+export type ValidationMessages =
+  | Partial<Record<ValidationErrorCode, ValidationMessage>>
+  | ((error: Omit<ValidationError, "message">) => string | null | undefined)
+
+export type ValidationResult = {
+  error: string | null
+  errors: ValidationError[]
+}
+
+export const DEFAULT_VALIDATION_MESSAGES: Record<ValidationErrorCode, ValidationMessage> = {
+  maxDigits: "Maximum digits is {maxDigits}",
+  negative: "Negative values are not allowed",
+  min: "Value must be >= {min}",
+  max: "Value must be <= {max}",
+  custom: "{message}",
+}
+
+export function describeValidationError(
+  code: ValidationErrorCode,
+  params: ValidationErrorParams,
+  messages?: ValidationMessages
+): ValidationError {
+  const custom =
+    typeof messages === "function"
+      ? messages({ code, params })
+      : renderMessage(messages?.[code], params)
+  const message = custom ?? renderMessage(DEFAULT_VALIDATION_MESSAGES[code], params) ?? ""
+
+  return { code, params, message }
+}
+
+// `error` keeps the custom validator's message first, as before structured errors existed.
+export function toValidationResult(errors: ValidationError[]): ValidationResult {
+  const custom = errors.find((entry) => entry.code === "custom")
+  return { error: (custom ?? errors[0])?.message ?? null, errors }
+}
+
+export function isSameValidationResult(a: ValidationResult, b: ValidationResult) {
+  return (
+    a.error === b.error &&
+    a.errors.length === b.errors.length &&
+    a.errors.every(
+      (entry, index) =>
+        entry.code === b.errors[index].code && entry.message === b.errors[index].message
+    )
+  )
+}
+
+function renderMessage(message: ValidationMessage | undefined, params: ValidationErrorParams) {
+  if (message == null) return undefined
+  if (typeof message === "function") return message(params)
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  )
+}
@@ -0,0 +1,135 @@
+export type CardBrand =
+  | "visa"
+  | "mastercard"
+  | "amex"
+  | "discover"
+  | "diners"
+  | "jcb"
+  | "unionpay"
+  | "maestro"
+
+export type CardBrandInfo = {
+  brand: CardBrand
+  name: string
+  prefixes: (string | [number, number])[]
+  lengths: number[]
+  gaps: number[]
+  cvcLength: number
+}
+
+export const CARD_BRANDS: CardBrandInfo[] = [
+  {
+    brand: "visa",
+    name: "Visa",
+    prefixes: ["4"],
+    lengths: [13, 16, 19],
+    gaps: [4, 4, 4, 4, 3],
+    cvcLength: 3,
+  },
+  {
+    brand: "mastercard",
+    name: "Mastercard",
+    prefixes: [[51, 55], [2221, 2720]],
+    lengths: [16],
+    gaps: [4, 4, 4, 4],
+    cvcLength: 3,
+  },
+  {
+    brand: "amex",
+    name: "American Express",
+    prefixes: ["34", "37"],
+    lengths: [15],
+    gaps: [4, 6, 5],
+    cvcLength: 4,
+  },
+  {
+    brand: "discover",
+    name: "Discover",
+    prefixes: ["6011", [644, 649], "65", [622126, 622925]],
+    lengths: [16, 19],
+    gaps: [4, 4, 4, 4, 3],
+    cvcLength: 3,
+  },
+  {
+    brand: "diners",
+    name: "Diners Club",
+    prefixes: [[300, 305], "36", "38", "39"],
+    lengths: [14, 16, 19],
+    gaps: [4, 6, 4, 5],
+    cvcLength: 3,
+  },
+  {
+    brand: "jcb",
+    name: "JCB",
+    prefixes: [[3528, 3589]],
+    lengths: [16, 17, 18, 19],
+    gaps: [4, 4, 4, 4, 3],
+    cvcLength: 3,
+  },
+  {
+    brand: "unionpay",
+    name: "UnionPay",
+    prefixes: ["62"],
+    lengths: [16, 17, 18, 19],
+    gaps: [4, 4, 4, 4, 3],
+    cvcLength: 3,
+  },
+  {
+    brand: "maestro",
+    name: "Maestro",
+    prefixes: ["5018", "5020", "5038", "5893", "6304", "6759", [6761, 6763]],
+    lengths: [12, 13, 14, 15, 16, 17, 18, 19],
+    gaps: [4, 4, 4, 4, 3],
+    cvcLength: 3,
+  },
+]
+
+export function getCardBrand(brand: CardBrand): CardBrandInfo | null {
+  return CARD_BRANDS.find((info) => info.brand === brand) ?? null
+}
+
+export function detectCardBrand(digits: string): CardBrandInfo | null {
+  let match: CardBrandInfo | null = null
+  let matchLength = 0
+
+  for (const info of CARD_BRANDS) {
+    for (const prefix of info.prefixes) {
+      const length = matchPrefix(digits, prefix)
+      if (length > matchLength) {
+        match = info
+        matchLength = length
+      }
+    }
+  }
+
+  return match
+}
+
+export function luhnCheck(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false
+
+  let sum = 0
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index])
+    if (index % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+
+  return sum % 10 === 0
+}
+
+function matchPrefix(digits: string, prefix: string | [number, number]) {
+  if (typeof prefix === "string") {
+    return digits.startsWith(prefix) ? prefix.length : 0
+  }
+
+  const [min, max] = prefix
+  const length = String(min).length
+  if (digits.length < length) return 0
+
+  const head = Number(digits.slice(0, length))
+  return head >= min && head <= max ? length : 0
+}
@@ -0,0 +1,39 @@
+import { Formatter, FormatResult, ParseResult } from "../../core/Formatter.types"
+import { stripToDigits } from "../../core/currency"
+import { CardBrand, getCardBrand } from "./cardBrands"
+
+export type CardCvcFormatterOptions = {
+  brand?: CardBrand | null
+  validate?: (value: string | null) => string | null
+}
+
+const DEFAULT_CVC_LENGTHS = [3, 4]
+
+export function createCardCvcFormatter(options: CardCvcFormatterOptions = {}): Formatter<string> {
+  const { brand, validate } = options
+  const info = brand ? getCardBrand(brand) : null
+  const lengths = info ? [info.cvcLength] : DEFAULT_CVC_LENGTHS
+  const maxLength = Math.max(...lengths)
+
+  const format = (value: string | null): FormatResult => {
+    const digits = value ? stripToDigits(value).slice(0, maxLength) : ""
+    return { text: digits, rawValue: digits }
+  }
+
+  const parse = (inputText: string): ParseResult<string> => {
+    const digits = stripToDigits(inputText).slice(0, maxLength)
+    if (!digits) {
+      return { value: null, rawValue: "" }
+    }
+
+    const custom = validate?.(digits)
+    const error = custom || (lengths.includes(digits.length) ? null : "Security code is incomplete")
+
+    return { value: digits, rawValue: digits, error }
+  }
+
+  return {
+    format,
+    parse,
+  }
+}
@@ -0,0 +1,112 @@
+import { Formatter, FormatResult, ParseResult } from "../../core/Formatter.types"
+
+export type CardExpiry = {
+  month: number
+  year: number
+}
+
+export type CardExpiryFormatterOptions = {
+  now?: () => Date
+  separator?: string
+  validate?: (value: CardExpiry | null) => string | null
+}
+
+export function createCardExpiryFormatter(
+  options: CardExpiryFormatterOptions = {}
+): Formatter<CardExpiry> {
+  const { now = () => new Date(), separator = "/", validate } = options
+
+  const format = (value: CardExpiry | null): FormatResult => {
+    if (!value) return { text: "", rawValue: "" }
+
+    const month = String(value.month).padStart(2, "0")
+    const year = String(value.year % 100).padStart(2, "0")
+    return { text: `${month}${separator}${year}`, rawValue: `${month}${year}` }
+  }
+
+  const parse = (inputText: string): ParseResult<CardExpiry> => {
+    let month = ""
+    let year = ""
+    let trailingSeparator = false
+
+    for (const char of inputText) {
+      if (month.length < 2) {
+        if (!/\d/.test(char)) {
+          if (month) {
+            month = month.padStart(2, "0")
+            trailingSeparator = true
+          }
+          continue
+        }
+
+        if (!month && Number(char) > 1) {
+          month = `0${char}`
+          trailingSeparator = true
+          continue
+        }
+
+        month += char
+        continue
+      }
+
+      if (!/\d/.test(char)) {
+        trailingSeparator = !year
+        continue
+      }
+
+      if (year.length < 2) {
+        year += char
+        trailingSeparator = false
+      }
+    }
+
+    const rawValue = `${month}${year}`
+    if (!rawValue) {
+      return { value: null, rawValue: "" }
+    }
+
+    const showSeparator = year.length > 0 || (month.length === 2 && trailingSeparator)
+    const text = `${month}${showSeparator ? separator : ""}${year}`
+
+    if (month.length === 2 && (Number(month) < 1 || Number(month) > 12)) {
+      return { value: null, rawValue, text, error: "Invalid expiry month" }
+    }
+
+    if (year.length < 2) {
+      return { value: null, rawValue, text, error: "Expiry date is incomplete" }
+    }
+
+    const today = now()
+    const century = Math.floor(today.getFullYear() / 100) * 100
+    const value = { month: Number(month), year: century + Number(year) }
+    const error = buildExpiryError({ value, today, validate })
+
+    return { value, rawValue, text, error }
+  }
+
+  return {
+    format,
+    parse,
+  }
+}
+
+function buildExpiryError(options: {
+  value: CardExpiry
+  today: Date
+  validate?: (value: CardExpiry | null) => string | null
+}) {
+  const { value, today, validate } = options
+
+  const messages: string[] = []
+
+  const currentMonth = today.getFullYear() * 12 + today.getMonth()
+  const expiryMonth = value.year * 12 + (value.month - 1)
+  if (expiryMonth < currentMonth) {
+    messages.push("Card has expired")
+  }
+
+  const custom = validate?.(value)
+  if (custom) return custom
+
+  return messages[0] ?? null
+}
@@ -0,0 +1,96 @@
+import { Formatter, FormatResult, ParseResult } from "../../core/Formatter.types"
+import { stripToDigits } from "../../core/currency"
+import { applyPattern, tokenizePattern } from "../pattern/createPatternFormatter"
+import { CardBrand, CardBrandInfo, detectCardBrand, luhnCheck } from "./cardBrands"
+
+export type CardNumberFormatterOptions = {
+  brands?: CardBrand[]
+  validate?: (value: string | null) => string | null
+}
+
+const FALLBACK_LAYOUT = {
+  lengths: [12, 13, 14, 15, 16, 17, 18, 19],
+  gaps: [4, 4, 4, 4, 3],
+}
+
+export function createCardNumberFormatter(
+  options: CardNumberFormatterOptions = {}
+): Formatter<string> {
+  const { brands, validate } = options
+
+  const layout = (digits: string) => {
+    const info = detectCardBrand(digits)
+    const { lengths, gaps } = info ?? FALLBACK_LAYOUT
+    const maxLength = Math.max(...lengths)
+    const pattern = gapsToPattern(gaps, maxLength)
+    const { text, rawValue } = applyPattern(tokenizePattern(pattern), digits.slice(0, maxLength))
+    return { info, lengths, text, rawValue }
+  }
+
+  const format = (value: string | null): FormatResult => {
+    const digits = value ? stripToDigits(value) : ""
+    if (!digits) return { text: "", rawValue: "" }
+
+    const { text, rawValue } = layout(digits)
+    return { text, rawValue }
+  }
+
+  const parse = (inputText: string): ParseResult<string> => {
+    const digits = stripToDigits(inputText)
+    if (!digits) {
+      return { value: null, rawValue: "" }
+    }
+
+    const { info, lengths, text, rawValue } = layout(digits)
+    const error = buildCardNumberError({ digits: rawValue, info, lengths, brands, validate })
+
+    return { value: rawValue, rawValue, text, error }
+  }
+
+  return {
+    format,
+    parse,
+  }
+}
+
+function buildCardNumberError(options: {
+  digits: string
+  info: CardBrandInfo | null
+  lengths: number[]
+  brands?: CardBrand[]
+  validate?: (value: string | null) => string | null
+}) {
+  const { digits, info, lengths, brands, validate } = options
+
+  const messages: string[] = []
+
+  if (brands && info && !brands.includes(info.brand)) {
+    messages.push(`${info.name} is not supported`)
+  }
+
+  if (!lengths.includes(digits.length)) {
+    messages.push("Card number is incomplete")
+  } else if (!luhnCheck(digits)) {
+    messages.push("Invalid card number")
+  }
+
+  const custom = validate?.(digits)
+  if (custom) return custom
+
+  return messages[0] ?? null
+}
+
+function gapsToPattern(gaps: number[], maxLength: number) {
+  const groups: string[] = []
+  let remaining = maxLength
+
+  for (const gap of gaps) {
+    if (remaining <= 0) break
+    const size = Math.min(gap, remaining)
+    groups.push("9".repeat(size))
+    remaining -= size
+  }
+
+  if (remaining > 0) groups.push("9".repeat(remaining))
+  return groups.join(" ")
+}
@@ -0,0 +1,185 @@
+import { Formatter, FormatResult, ParseResult } from "../../core/Formatter.types"
+
+export type DateField = "day" | "month" | "year"
+
+export type DateFormatterOptions = {
+  locale?: string
+  pattern?: string
+  minimumDate?: Date
+  maximumDate?: Date
+  validate?: (value: Date | null) => string | null
+}
+
+export type DateLayout = {
+  order: DateField[]
+  separator: string
+}
+
+const FIELD_LENGTHS: Record<DateField, number> = {
+  day: 2,
+  month: 2,
+  year: 4,
+}
+
+const PATTERN_TOKENS: Record<string, DateField> = {
+  DD: "day",
+  MM: "month",
+  YYYY: "year",
+}
+
+const DEFAULT_SEPARATOR = "/"
+
+// Single digits that can only start a padded field, e.g. "4" can only be "04" as a month.
+const PAD_THRESHOLDS: Partial<Record<DateField, number>> = {
+  day: 3,
+  month: 1,
+}
+
+export function resolveDateLayout(locale?: string): DateLayout {
+  try {
+    const parts = new Intl.DateTimeFormat(locale, {
+      day: "2-digit",
+      month: "2-digit",
+      year: "numeric",
+    }).formatToParts(new Date(2001, 10, 22))
+
+    const order = parts
+      .map((part) => part.type)
+      .filter((type): type is DateField => type === "day" || type === "month" || type === "year")
+    const literal = parts.find((part) => part.type === "literal")?.value ?? DEFAULT_SEPARATOR
+
+    if (order.length !== 3) return { order: ["month", "day", "year"], separator: DEFAULT_SEPARATOR }
+    return { order, separator: literal.trim() || literal }
+  } catch (error) {
+    return { order: ["month", "day", "year"], separator: DEFAULT_SEPARATOR }
+  }
+}
+
+export function parseDatePattern(pattern: string): DateLayout {
+  const matches = pattern.match(/DD|MM|YYYY/g) ?? []
+  const order = matches.map((token) => PATTERN_TOKENS[token])
+  const separator = pattern.replace(/DD|MM|YYYY/g, "\u0000").split("\u0000")[1] ?? ""
+
+  if (order.length !== 3 || new Set(order).size !== 3 || !separator) {
+    throw new Error(`Invalid date pattern: ${pattern}`)
+  }
+
+  return { order, separator }
+}
+
+export function createDateFormatter(options: DateFormatterOptions = {}): Formatter<Date> {
+  const { locale, pattern, minimumDate, maximumDate, validate } = options
+  const { order, separator } = pattern ? parseDatePattern(pattern) : resolveDateLayout(locale)
+
+  const join = (fields: string[]) => fields.join(separator)
+
+  const format = (value: Date | null): FormatResult => {
+    if (!value || Number.isNaN(value.getTime())) return { text: "", rawValue: "" }
+
+    const fields = order.map((field) => {
+      const part =
+        field === "day" ? value.getDate() : field === "month" ? value.getMonth() + 1 : value.getFullYear()
+      return String(part).padStart(FIELD_LENGTHS[field], "0")
+    })
+
+    return { text: join(fields), rawValue: fields.join("") }
+  }
+
+  const parse = (inputText: string): ParseResult<Date> => {
+    const fields: string[] = []
+    let current = ""
+    let trailingSeparator = false
+
+    for (const char of inputText) {
+      if (fields.length === order.length) break
+      const field = order[fields.length]
+
+      if (!/\d/.test(char)) {
+        if (current && field !== "year") {
+          fields.push(current.padStart(FIELD_LENGTHS[field], "0"))
+          current = ""
+        }
+        trailingSeparator = fields.length > 0 && !current
+        continue
+      }
+
+      const threshold = PAD_THRESHOLDS[field]
+      if (!current && threshold !== undefined && Number(char) > threshold) {
+        fields.push(`0${char}`)
+        trailingSeparator = true
+        continue
+      }
+
+      current += char
+      trailingSeparator = false
+      if (current.length === FIELD_LENGTHS[field]) {
+        fields.push(current)
+        current = ""
+      }
+    }
+
+    const rawValue = `${fields.join("")}${current}`
+    if (!rawValue) {
+      return { value: null, rawValue: "" }
+    }
+
+    const complete = fields.length === order.length
+    const visible = current ? [...fields, current] : fields
+    const text = `${join(visible)}${trailingSeparator && !complete ? separator : ""}`
+
+    if (!complete) {
+      return { value: null, rawValue, text, error: "Date is incomplete" }
+    }
+
+    const read = (field: DateField) => Number(fields[order.indexOf(field)])
+    const year = read("year")
+    const month = read("month")
+    const day = read("day")
+    const value = new Date(year, month - 1, day)
+
+    if (
+      value.getFullYear() !== year ||
+      value.getMonth() !== month - 1 ||
+      value.getDate() !== day
+    ) {
+      return { value: null, rawValue, text, error: "Invalid date" }
+    }
+
+    const error = buildDateError({ value, minimumDate, maximumDate, validate, format })
+    return { value, rawValue, text, error }
+  }
+
+  return {
+    format,
+    parse,
+  }
+}
+
+function buildDateError(options: {
+  value: Date
+  minimumDate?: Date
+  maximumDate?: Date
+  validate?: (value: Date | null) => string | null
+  format: (value: Date | null) => FormatResult
+}) {
+  const { value, minimumDate, maximumDate, validate, format } = options
+
+  const messages: string[] = []
+
+  if (minimumDate && value.getTime() < startOfDay(minimumDate).getTime()) {
+    messages.push(`Date must be on or after ${format(minimumDate).text}`)
+  }
+
+  if (maximumDate && value.getTime() > startOfDay(maximumDate).getTime()) {
+    messages.push(`Date must be on or before ${format(maximumDate).text}`)
+  }
+
+  const custom = validate?.(value)
+  if (custom) return custom
+
+  return messages[0] ?? null
+}
+
+function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
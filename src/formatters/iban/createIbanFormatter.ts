@@ -0,0 +1,91 @@
+import { Formatter, FormatResult, ParseResult } from "../../core/Formatter.types"
+import { IBAN_LENGTHS } from "./ibanLengths"
+
+export type IbanFormatterOptions = {
+  countries?: string[]
+  validate?: (value: string | null) => string | null
+}
+
+const MAX_IBAN_LENGTH = 34
+const GROUP_SIZE = 4
+
+export function normalizeIban(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z0-9]/g, "")
+}
+
+export function isValidIbanChecksum(iban: string): boolean {
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban)) return false
+
+  const rearranged = `${iban.slice(4)}${iban.slice(0, 4)}`
+  let remainder = 0
+
+  for (const char of rearranged) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55)
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97
+    }
+  }
+
+  return remainder === 1
+}
+
+export function createIbanFormatter(options: IbanFormatterOptions = {}): Formatter<string> {
+  const { countries, validate } = options
+
+  const layout = (input: string) => {
+    const normalized = normalizeIban(input)
+    const expectedLength = IBAN_LENGTHS[normalized.slice(0, 2)]
+    const compact = normalized.slice(0, expectedLength ?? MAX_IBAN_LENGTH)
+    const text = compact.match(new RegExp(`.{1,${GROUP_SIZE}}`, "g"))?.join(" ") ?? ""
+    return { compact, text, expectedLength }
+  }
+
+  const format = (value: string | null): FormatResult => {
+    if (!value) return { text: "", rawValue: "" }
+
+    const { compact, text } = layout(value)
+    return { text, rawValue: compact }
+  }
+
+  const parse = (inputText: string): ParseResult<string> => {
+    const { compact, text, expectedLength } = layout(inputText)
+    if (!compact) {
+      return { value: null, rawValue: "" }
+    }
+
+    const error = buildIbanError({ iban: compact, expectedLength, countries, validate })
+    return { value: compact, rawValue: compact, text, error }
+  }
+
+  return {
+    format,
+    parse,
+  }
+}
+
+function buildIbanError(options: {
+  iban: string
+  expectedLength?: number
+  countries?: string[]
+  validate?: (value: string | null) => string | null
+}) {
+  const { iban, expectedLength, countries, validate } = options
+  const country = iban.slice(0, 2)
+
+  const messages: string[] = []
+
+  if (!/^[A-Z]{0,2}$/.test(country) || (country.length === 2 && !expectedLength)) {
+    messages.push("Unsupported IBAN country")
+  } else if (countries && country.length === 2 && !countries.includes(country)) {
+    messages.push(`IBANs from ${country} are not accepted`)
+  } else if (!expectedLength || iban.length < expectedLength) {
+    messages.push("IBAN is incomplete")
+  } else if (!isValidIbanChecksum(iban)) {
+    messages.push("Invalid IBAN checksum")
+  }
+
+  const custom = validate?.(iban)
+  if (custom) return custom
+
+  return messages[0] ?? null
+}
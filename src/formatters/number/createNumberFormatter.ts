@@ -0,0 +1,23 @@
+import { Formatter } from "../../core/Formatter.types"
+import { NumberFormatterMode, NumberInputParsingOptions, formatNumber } from "../../core/number"
+import { majorUnitCodec } from "../../core/numericValue"
+import { ValidationMessages } from "../../core/validation"
+import { createNumericFormatter } from "./createNumericFormatter"
+
+export type NumberFormatterOptions = NumberInputParsingOptions & {
+  mask?: NumberFormatterMode
+  validate?: (value: number | null) => string | null
+  messages?: ValidationMessages
+}
+
+export function createNumberFormatter(options: NumberFormatterOptions = {}): Formatter<number> {
+  const { locale, unit, unitDisplay, useGrouping, mask = "number" } = options
+
+  return createNumericFormatter({
+    ...options,
+    codec: majorUnitCodec,
+    formatValue: (value, fractionDigits) =>
+      formatNumber(value, { locale, unit, unitDisplay, useGrouping, ...fractionDigits }),
+    masked: mask === "number",
+  })
+}
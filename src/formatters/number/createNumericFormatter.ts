@@ -0,0 +1,185 @@
+import { Formatter, FormatResult, ParseResult } from "../../core/Formatter.types"
+import { FormatEngine } from "../../core/builtinFormat"
+import {
+  CurrencySignOptions,
+  NumberCommonOptions,
+  NumberValueFormatter,
+  SignedDigits,
+  applyMaxDigits,
+  countMinusSigns,
+  formatAffixes,
+  removeAffixes,
+  formatSignedDigits,
+  stripToDigits,
+  resolveFractionDigits,
+} from "../../core/currency"
+import {
+  DigitBounds,
+  NumericValueCodec,
+  clampDigits,
+  compareSignedDigits,
+} from "../../core/numericValue"
+import {
+  ValidationError,
+  ValidationMessages,
+  describeValidationError,
+  toValidationResult,
+} from "../../core/validation"
+
+export type NumericFormatterOptions<TValue> = NumberCommonOptions &
+  CurrencySignOptions & {
+    currency?: string
+    engine?: FormatEngine
+    minimumValue?: TValue
+    maximumValue?: TValue
+    allowNegative?: boolean
+    maxDigits?: number
+    codec: NumericValueCodec<TValue>
+    formatValue: NumberValueFormatter
+    masked?: boolean
+    validate?: (value: TValue | null) => string | null
+    messages?: ValidationMessages
+  }
+
+export function createNumericFormatter<TValue>(
+  options: NumericFormatterOptions<TValue>
+): Formatter<TValue> {
+  const {
+    currency,
+    engine,
+    locale,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+    currencySign,
+    signDisplay,
+    negativeTemplate,
+    minimumValue,
+    maximumValue,
+    allowNegative = false,
+    maxDigits,
+    codec,
+    formatValue,
+    masked = true,
+    validate,
+    messages,
+  } = options
+
+  const fractionOptions = {
+    currency,
+    engine,
+    locale,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+    currencySign,
+    signDisplay,
+    negativeTemplate,
+  }
+  const { maxFractionDigits } = resolveFractionDigits(fractionOptions)
+
+  const bounds: DigitBounds = {
+    allowNegative,
+    minimum: minimumValue == null ? undefined : codec.toDigits(minimumValue, maxFractionDigits),
+    maximum: maximumValue == null ? undefined : codec.toDigits(maximumValue, maxFractionDigits),
+  }
+
+  const format = (value: TValue | null): FormatResult => {
+    const signed = value == null ? null : codec.toDigits(value, maxFractionDigits)
+    const amount = signed?.digits ? clampDigits(signed, bounds) : { digits: "", isNegative: false }
+    return formatSignedDigits(amount, fractionOptions, masked ? formatValue : null)
+  }
+
+  const affixes = masked ? formatAffixes(formatValue) : []
+
+  const parse = (rawInputText: string): ParseResult<TValue> => {
+    const inputText = removeAffixes(rawInputText, affixes)
+    const isNegative = allowNegative ? isNegativeText(inputText) : false
+    const rawDigits = stripToDigits(inputText)
+
+    const limited = applyMaxDigits(rawDigits, maxFractionDigits, maxDigits)
+    const digits = limited.digits
+    const hitMaxDigits = limited.hitMaxDigits
+
+    if (!digits) {
+      return { value: null, rawValue: "" }
+    }
+
+    const amount = clampDigits({ digits, isNegative }, bounds)
+    const value = codec.fromDigits(amount, maxFractionDigits)
+
+    const { error, errors } = buildFormatterError({
+      value,
+      amount,
+      bounds,
+      minimumValue,
+      maximumValue,
+      maxDigits,
+      hitMaxDigits,
+      validate,
+      messages,
+    })
+
+    return { value, rawValue: digits, error, errors }
+  }
+
+  return {
+    format,
+    parse,
+  }
+}
+
+// Stateless parsing only recognises minus signs and accounting parentheses; a
+// parenthesised amount with a minus inside reads as positive again.
+function isNegativeText(text: string) {
+  return (countMinusSigns(text) % 2 === 1) !== /\(.*\d.*\)/.test(text)
+}
+
+function buildFormatterError<TValue>(options: {
+  value: TValue | null
+  amount: SignedDigits
+  bounds: DigitBounds
+  minimumValue?: TValue
+  maximumValue?: TValue
+  maxDigits?: number
+  hitMaxDigits: boolean
+  validate?: (value: TValue | null) => string | null
+  messages?: ValidationMessages
+}) {
+  const {
+    value,
+    amount,
+    bounds,
+    minimumValue,
+    maximumValue,
+    maxDigits,
+    hitMaxDigits,
+    validate,
+    messages,
+  } = options
+
+  const errors: ValidationError[] = []
+
+  if (hitMaxDigits && maxDigits) {
+    errors.push(describeValidationError("maxDigits", { maxDigits }, messages))
+  }
+
+  if (!bounds.allowNegative && amount.isNegative) {
+    errors.push(describeValidationError("negative", {}, messages))
+  }
+
+  if (bounds.minimum && compareSignedDigits(amount, bounds.minimum) < 0) {
+    errors.push(describeValidationError("min", { min: minimumValue }, messages))
+  }
+
+  if (bounds.maximum && compareSignedDigits(amount, bounds.maximum) > 0) {
+    errors.push(describeValidationError("max", { max: maximumValue }, messages))
+  }
+
+  const custom = validate?.(value)
+  if (custom) {
+    errors.push(describeValidationError("custom", { message: custom }, messages))
+  }
+
+  return toValidationResult(errors)
+}
@@ -0,0 +1,173 @@
+import { Formatter, FormatResult, ParseResult } from "../../core/Formatter.types"
+
+export type PatternDefinitions = Record<string, RegExp>
+
+export type PatternFormatterOptions = {
+  definitions?: PatternDefinitions
+  transform?: (char: string) => string
+  validate?: (value: string | null) => string | null
+}
+
+export type PatternToken =
+  | { type: "literal"; char: string }
+  | { type: "slot"; test: RegExp; optional: boolean }
+
+// 9 = digit, A = letter, * = letter or digit. A trailing "?" makes the previous
+// slot optional and "\" escapes the next character so it is kept as a literal.
+export const DEFAULT_PATTERN_DEFINITIONS: PatternDefinitions = {
+  "9": /\d/,
+  A: /[A-Za-z]/,
+  "*": /[A-Za-z0-9]/,
+}
+
+const OPTIONAL_MARKER = "?"
+const ESCAPE_MARKER = "\\"
+
+export function tokenizePattern(
+  pattern: string,
+  definitions: PatternDefinitions = DEFAULT_PATTERN_DEFINITIONS
+): PatternToken[] {
+  const tokens: PatternToken[] = []
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index]
+
+    if (char === ESCAPE_MARKER && index + 1 < pattern.length) {
+      index++
+      tokens.push({ type: "literal", char: pattern[index] })
+      continue
+    }
+
+    const definition = definitions[char]
+    if (!definition) {
+      tokens.push({ type: "literal", char })
+      continue
+    }
+
+    const optional = pattern[index + 1] === OPTIONAL_MARKER
+    if (optional) index++
+    tokens.push({ type: "slot", test: definition, optional })
+  }
+
+  return tokens
+}
+
+export function applyPattern(
+  tokens: PatternToken[],
+  raw: string,
+  transform: (char: string) => string = identity
+): { text: string; rawValue: string; complete: boolean } {
+  let text = ""
+  let rawValue = ""
+  let pendingLiterals = ""
+  let tokenIndex = 0
+  let rawIndex = 0
+
+  while (tokenIndex < tokens.length && rawIndex < raw.length) {
+    const token = tokens[tokenIndex]
+
+    if (token.type === "literal") {
+      pendingLiterals += token.char
+      tokenIndex++
+      continue
+    }
+
+    const char = transform(raw[rawIndex])
+    if (token.test.test(char)) {
+      text += `${pendingLiterals}${char}`
+      rawValue += char
+      pendingLiterals = ""
+      tokenIndex++
+      rawIndex++
+      continue
+    }
+
+    if (token.optional) {
+      tokenIndex++
+      continue
+    }
+
+    rawIndex++
+  }
+
+  const complete = tokens
+    .slice(tokenIndex)
+    .every((token) => token.type === "literal" || token.optional)
+
+  return { text, rawValue, complete }
+}
+
+export function unmaskPattern(
+  tokens: PatternToken[],
+  inputText: string,
+  transform: (char: string) => string = identity
+): string {
+  let rawValue = ""
+  let tokenIndex = 0
+  let inputIndex = 0
+
+  while (tokenIndex < tokens.length && inputIndex < inputText.length) {
+    const token = tokens[tokenIndex]
+    const inputChar = inputText[inputIndex]
+
+    if (token.type === "literal") {
+      if (inputChar === token.char) inputIndex++
+      tokenIndex++
+      continue
+    }
+
+    const char = transform(inputChar)
+    if (token.test.test(char)) {
+      rawValue += char
+      tokenIndex++
+      inputIndex++
+      continue
+    }
+
+    if (token.optional) {
+      tokenIndex++
+      continue
+    }
+
+    inputIndex++
+  }
+
+  return rawValue
+}
+
+export function createPatternFormatter(
+  pattern: string,
+  options: PatternFormatterOptions = {}
+): Formatter<string> {
+  const { definitions, transform = identity, validate } = options
+  const tokens = tokenizePattern(pattern, { ...DEFAULT_PATTERN_DEFINITIONS, ...definitions })
+
+  const format = (value: string | null): FormatResult => {
+    if (!value) return { text: "", rawValue: "" }
+    const { text, rawValue } = applyPattern(tokens, value, transform)
+    return { text, rawValue }
+  }
+
+  const parse = (inputText: string): ParseResult<string> => {
+    const unmasked = unmaskPattern(tokens, inputText, transform)
+    const { rawValue, complete } = applyPattern(tokens, unmasked, transform)
+
+    if (!rawValue) {
+      return { value: null, rawValue: "" }
+    }
+
+    const custom = validate?.(rawValue)
+    const error = custom || (complete ? null : "Value is incomplete")
+
+    return { value: rawValue, rawValue, error }
+  }
+
+  return {
+    format,
+    parse,
+  }
+}
+
+function identity(char: string) {
+  return char
+}
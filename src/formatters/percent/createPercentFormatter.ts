@@ -0,0 +1,47 @@
+import { Formatter } from "../../core/Formatter.types"
+import { resolveFractionDigits } from "../../core/currency"
+import {
+  PercentFormatterMode,
+  PercentParsingOptions,
+  formatPercentPoints,
+  fromPercentPoints,
+  toPercentPoints,
+} from "../../core/percent"
+import { majorUnitCodec } from "../../core/numericValue"
+import { ValidationMessages } from "../../core/validation"
+import { createNumericFormatter } from "../number/createNumericFormatter"
+
+export type PercentFormatterOptions = PercentParsingOptions & {
+  mask?: PercentFormatterMode
+  validate?: (value: number | null) => string | null
+  messages?: ValidationMessages
+}
+
+export function createPercentFormatter(options: PercentFormatterOptions = {}): Formatter<number> {
+  const { locale, valueScale = "ratio", mask = "percent", minimumValue, maximumValue, validate } =
+    options
+  const { maxFractionDigits } = resolveFractionDigits(options)
+
+  const toPoints = (value: number | null | undefined) =>
+    typeof value === "number" ? toPercentPoints(value, valueScale) : value
+  const fromPoints = (points: number | null) =>
+    points == null ? null : fromPercentPoints(points, valueScale, maxFractionDigits)
+
+  const numeric = createNumericFormatter({
+    ...options,
+    minimumValue: toPoints(minimumValue) ?? undefined,
+    maximumValue: toPoints(maximumValue) ?? undefined,
+    validate: validate ? (points) => validate(fromPoints(points)) : undefined,
+    codec: majorUnitCodec,
+    formatValue: (points, fractionDigits) => formatPercentPoints(points, { locale, ...fractionDigits }),
+    masked: mask === "percent",
+  })
+
+  return {
+    format: (value) => numeric.format(toPoints(value) ?? null),
+    parse: (inputText) => {
+      const parsed = numeric.parse(inputText)
+      return { ...parsed, value: fromPoints(parsed.value) }
+    },
+  }
+}
@@ -0,0 +1,137 @@
+import { Formatter, FormatResult, ParseResult } from "../../core/Formatter.types"
+import { stripToDigits } from "../../core/currency"
+import { applyPattern, tokenizePattern } from "../pattern/createPatternFormatter"
+import {
+  PHONE_COUNTRIES,
+  PhoneCountry,
+  PhoneCountryCode,
+  findPhoneCountryByDialCode,
+} from "./phoneCountries"
+
+export type PhoneFormatterOptions = {
+  country: PhoneCountryCode
+  validate?: (value: string | null) => string | null
+}
+
+const E164_MAX_DIGITS = 15
+const MAX_DIAL_CODE_LENGTH = 3
+
+export function createPhoneFormatter(options: PhoneFormatterOptions): Formatter<string> {
+  const { validate } = options
+  const country: PhoneCountry | undefined = PHONE_COUNTRIES[options.country]
+
+  if (!country) {
+    throw new Error(`Unsupported phone country: ${options.country}`)
+  }
+
+  // `keepInternational` keeps a number typed with "+" in international form even when it
+  // belongs to `country`, so "+447" does not turn into "07" mid-entry.
+  const present = (digits: string, international: boolean, keepInternational: boolean) => {
+    const target = international ? findPhoneCountryByDialCode(digits, country) : country
+
+    if (!target) {
+      const limited = digits.slice(0, E164_MAX_DIGITS)
+      return {
+        text: `+${limited}`,
+        e164Digits: limited,
+        nationalDigits: "",
+        error:
+          digits.length > E164_MAX_DIGITS
+            ? "Phone number is too long"
+            : digits.length > MAX_DIAL_CODE_LENGTH
+              ? "Unknown country code"
+              : "Phone number is too short",
+      }
+    }
+
+    const national = international ? digits.slice(target.dialCode.length) : digits
+    const significant = stripTrunkPrefix(national, target.trunkPrefix)
+    const showNational = !keepInternational && target.dialCode === country.dialCode
+    const { pattern, maxLength, minLength } = selectPattern(target, significant.length)
+    const nationalPattern = showNational ? `${target.trunkPrefix ?? ""}${pattern}` : pattern
+    const { text: nationalText, rawValue } = applyPattern(
+      tokenizePattern(escapeLiterals(nationalPattern)),
+      significant.slice(0, maxLength)
+    )
+
+    // Until a national digit arrives, keep what was typed ("+44", the trunk "0") so the
+    // prefix can be entered one key at a time.
+    const text = !significant
+      ? international
+        ? `+${digits}`
+        : national
+      : showNational
+        ? nationalText
+        : `+${target.dialCode}${nationalText ? ` ${nationalText}` : ""}`
+
+    const error =
+      significant.length > maxLength
+        ? "Phone number is too long"
+        : significant.length < minLength
+          ? "Phone number is too short"
+          : null
+
+    return { text, e164Digits: `${target.dialCode}${rawValue}`, nationalDigits: rawValue, error }
+  }
+
+  const format = (value: string | null): FormatResult => {
+    const digits = value ? stripToDigits(value) : ""
+    if (!digits) return { text: "", rawValue: "" }
+
+    const { text, e164Digits } = present(digits, true, false)
+    return { text, rawValue: e164Digits }
+  }
+
+  const parse = (inputText: string): ParseResult<string> => {
+    const international = inputText.trim().startsWith("+")
+    const digits = stripToDigits(inputText)
+
+    if (!digits) {
+      return international
+        ? { value: null, rawValue: "", text: "+" }
+        : { value: null, rawValue: "" }
+    }
+
+    const { text, e164Digits, nationalDigits, error } = present(
+      digits,
+      international,
+      international
+    )
+    if (!international && !nationalDigits) {
+      return { value: null, rawValue: "", text }
+    }
+
+    const value = `+${e164Digits}`
+    const custom = validate?.(value)
+
+    return { value, rawValue: e164Digits, text, error: custom || error }
+  }
+
+  return {
+    format,
+    parse,
+  }
+}
+
+function stripTrunkPrefix(digits: string, trunkPrefix?: string) {
+  if (trunkPrefix && digits.startsWith(trunkPrefix)) {
+    return digits.slice(trunkPrefix.length)
+  }
+  return digits
+}
+
+function selectPattern(country: PhoneCountry, length: number) {
+  const sized = country.patterns
+    .map((pattern) => ({ pattern, slots: (pattern.match(/9/g) || []).length }))
+    .sort((a, b) => a.slots - b.slots)
+
+  const minLength = sized[0].slots
+  const maxLength = sized[sized.length - 1].slots
+  const fitting = sized.find((entry) => entry.slots >= length) ?? sized[sized.length - 1]
+
+  return { pattern: fitting.pattern, minLength, maxLength }
+}
+
+function escapeLiterals(pattern: string) {
+  return pattern.replace(/[^9]/g, (char) => `\\${char}`)
+}
@@ -0,0 +1,41 @@
+export type PhoneCountry = {
+  country: string
+  dialCode: string
+  trunkPrefix?: string
+  patterns: string[]
+}
+
+export const PHONE_COUNTRIES = {
+  US: { country: "US", dialCode: "1", patterns: ["(999) 999-9999"] },
+  CA: { country: "CA", dialCode: "1", patterns: ["(999) 999-9999"] },
+  MX: { country: "MX", dialCode: "52", patterns: ["99 9999 9999"] },
+  BR: { country: "BR", dialCode: "55", patterns: ["(99) 9999-9999", "(99) 99999-9999"] },
+  GB: { country: "GB", dialCode: "44", trunkPrefix: "0", patterns: ["9999 99999", "9999 999999"] },
+  DE: { country: "DE", dialCode: "49", trunkPrefix: "0", patterns: ["999 9999999", "9999 9999999"] },
+  FR: { country: "FR", dialCode: "33", trunkPrefix: "0", patterns: ["9 99 99 99 99"] },
+  ES: { country: "ES", dialCode: "34", patterns: ["999 99 99 99"] },
+  IN: { country: "IN", dialCode: "91", patterns: ["99999 99999"] },
+  AE: { country: "AE", dialCode: "971", trunkPrefix: "0", patterns: ["9 999 9999", "99 999 9999"] },
+  SG: { country: "SG", dialCode: "65", patterns: ["9999 9999"] },
+  JP: { country: "JP", dialCode: "81", trunkPrefix: "0", patterns: ["9-9999-9999", "99-9999-9999"] },
+  AU: { country: "AU", dialCode: "61", trunkPrefix: "0", patterns: ["9 9999 9999"] },
+} satisfies Record<string, PhoneCountry>
+
+export type PhoneCountryCode = keyof typeof PHONE_COUNTRIES
+
+export function findPhoneCountryByDialCode(
+  digits: string,
+  preferred?: PhoneCountry
+): PhoneCountry | null {
+  if (preferred && digits.startsWith(preferred.dialCode)) return preferred
+
+  let match: PhoneCountry | null = null
+  for (const candidate of Object.values(PHONE_COUNTRIES) as PhoneCountry[]) {
+    if (!digits.startsWith(candidate.dialCode)) continue
+    if (!match || candidate.dialCode.length > match.dialCode.length) {
+      match = candidate
+    }
+  }
+
+  return match
+}
@@ -0,0 +1,186 @@
+import { useEffect, useMemo, useState } from "react"
+import { FormatEngine } from "../core/builtinFormat"
+import {
+  CurrencyDisplay,
+  NumberCommonOptions,
+  formatCurrency,
+  resolveFractionDigits,
+} from "../core/currency"
+import {
+  ExchangeRate,
+  FractionDigitOptions,
+  RateProvider,
+  convertAmount,
+  isRateStale,
+} from "../core/exchangeRates"
+import { NumericValue, NumericValueType, toFormattableValue } from "../core/numericValue"
+
+export type UseConvertedAmountOptions<T extends NumericValueType = "major"> =
+  NumberCommonOptions & {
+    value: NumericValue<T> | null
+    valueType?: T
+    from: string
+    fromFractionOptions?: FractionDigitOptions
+    to?: string | null
+    rateProvider?: RateProvider | null
+    staleAfter?: number
+    locale?: string
+    currencyDisplay?: CurrencyDisplay
+    engine?: FormatEngine
+  }
+
+export type UseConvertedAmountResult<T extends NumericValueType = "major"> = {
+  value: NumericValue<T> | null
+  text: string
+  currency: string | null
+  rate: number | string | null
+  asOf: Date | null
+  isStale: boolean
+  loading: boolean
+  error: string | null
+}
+
+type RateState = {
+  key: string
+  rate: ExchangeRate | null
+  error: string | null
+}
+
+export function useConvertedAmount<T extends NumericValueType = "major">(
+  options: UseConvertedAmountOptions<T>
+): UseConvertedAmountResult<T> {
+  const {
+    value,
+    valueType,
+    from,
+    fromFractionOptions,
+    to,
+    rateProvider,
+    staleAfter,
+    locale,
+    currencyDisplay,
+    engine,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+  } = options
+  const {
+    fractionDigits: fromFractionDigits,
+    minimumFractionDigits: fromMinimumFractionDigits,
+    maximumFractionDigits: fromMaximumFractionDigits,
+  } = fromFractionOptions ?? {}
+
+  const key = rateProvider && to ? `${from}:${to}` : ""
+  const [rateState, setRateState] = useState<RateState>({ key: "", rate: null, error: null })
+
+  useEffect(() => {
+    if (!rateProvider || !to) return
+
+    let cancelled = false
+    const settle = (rate: ExchangeRate | null, error: string | null) => {
+      if (cancelled) return
+      const next = { key: `${from}:${to}`, rate, error }
+      setRateState((previous) => (isSameRateState(previous, next) ? previous : next))
+    }
+    const missing = `No exchange rate from ${from} to ${to}`
+
+    try {
+      Promise.resolve(rateProvider.getRate(from, to)).then(
+        (rate) => settle(rate, rate ? null : missing),
+        (error) => settle(null, error instanceof Error ? error.message : missing)
+      )
+    } catch (error) {
+      settle(null, error instanceof Error ? error.message : missing)
+    }
+
+    return () => {
+      cancelled = true
+    }
+  }, [rateProvider, from, to])
+
+  const current = key && rateState.key === key ? rateState : null
+  const rate = current?.rate ?? null
+
+  const converted = useMemo(() => {
+    if (!rate || !to) return null
+    return convertAmount(value, {
+      from,
+      to,
+      rate: rate.rate,
+      valueType,
+      fractionDigits,
+      minimumFractionDigits,
+      maximumFractionDigits,
+      fromFractionOptions: {
+        fractionDigits: fromFractionDigits,
+        minimumFractionDigits: fromMinimumFractionDigits,
+        maximumFractionDigits: fromMaximumFractionDigits,
+      },
+    })
+  }, [
+    rate,
+    value,
+    valueType,
+    from,
+    fromFractionDigits,
+    fromMinimumFractionDigits,
+    fromMaximumFractionDigits,
+    to,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+  ])
+
+  const fractionOptions = { fractionDigits, minimumFractionDigits, maximumFractionDigits }
+  const { maxFractionDigits } = resolveFractionDigits({
+    ...fractionOptions,
+    currency: to ?? undefined,
+  })
+  const text =
+    converted == null || !to
+      ? ""
+      : formatCurrency(toFormattableValue(converted, valueType, maxFractionDigits), {
+          ...fractionOptions,
+          currency: to,
+          locale,
+          currencyDisplay,
+          engine,
+        })
+  const asOf = rate?.asOf == null ? null : new Date(rate.asOf)
+
+  return {
+    value: converted,
+    text,
+    currency: key ? to ?? null : null,
+    rate: rate?.rate ?? null,
+    asOf,
+    isStale: isRateStale(asOf, staleAfter),
+    loading: Boolean(key) && !current,
+    error: current?.error ?? null,
+  }
+}
+
+// "≈ €11.02", with the rate date appended once the rate is stale.
+export function convertedAmountLabel(
+  converted: UseConvertedAmountResult<NumericValueType>,
+  locale?: string
+): string {
+  if (!converted.text) return ""
+  if (!converted.isStale || !converted.asOf) return `≈ ${converted.text}`
+
+  const date = new Intl.DateTimeFormat(locale, { dateStyle: "medium" }).format(converted.asOf)
+  return `≈ ${converted.text} (rates as of ${date})`
+}
+
+function isSameRateState(a: RateState, b: RateState) {
+  return (
+    a.key === b.key &&
+    a.error === b.error &&
+    a.rate?.rate === b.rate?.rate &&
+    toTime(a.rate?.asOf) === toTime(b.rate?.asOf)
+  )
+}
+
+function toTime(asOf: Date | number | null | undefined) {
+  return asOf instanceof Date ? asOf.getTime() : asOf
+}
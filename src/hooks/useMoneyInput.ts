@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { resolveFractionDigits } from "../core/currency"
+import {
+  NumericValue,
+  NumericValueType,
+  clampDigits,
+  decimalStringCodec,
+  resolveValueCodec,
+} from "../core/numericValue"
+import {
+  UseCurrencyInputOptions,
+  UseCurrencyInputResult,
+  useCurrencyInput,
+} from "./useCurrencyInput"
+
+export type MoneyValue<T extends NumericValueType = "major"> = {
+  amount: NumericValue<T> | null
+  currency: string
+}
+
+export type UseMoneyInputOptions<T extends NumericValueType = "major"> = Omit<
+  UseCurrencyInputOptions<T>,
+  "currency" | "value" | "onCommit"
+> & {
+  value?: MoneyValue<T> | null
+  currencies: string[]
+  defaultCurrency?: string
+  onCommit?: (money: MoneyValue<T>) => void
+}
+
+export type UseMoneyInputResult<T extends NumericValueType = "major"> =
+  UseCurrencyInputResult<T> & {
+    money: MoneyValue<T>
+    currency: string
+    currencies: string[]
+    setCurrency: (currency: string) => void
+  }
+
+export function useMoneyInput<T extends NumericValueType = "major">(
+  options: UseMoneyInputOptions<T>
+): UseMoneyInputResult<T> {
+  const { value, currencies, defaultCurrency, onCommit, ...currencyOptions } = options
+  const {
+    valueType,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+    minimumValue,
+    maximumValue,
+    allowNegative = false,
+  } = currencyOptions
+
+  const [money, setMoney] = useState<MoneyValue<T>>(() => ({
+    amount: value?.amount ?? null,
+    currency: value?.currency ?? defaultCurrency ?? currencies[0] ?? "",
+  }))
+
+  const currencyRef = useRef(money.currency)
+  currencyRef.current = money.currency
+
+  const result = useCurrencyInput<T>({
+    ...currencyOptions,
+    currency: money.currency,
+    value: money.amount,
+    onCommit: onCommit
+      ? (amount) => onCommit({ amount, currency: currencyRef.current })
+      : undefined,
+  })
+
+  const incomingAmount = value?.amount
+  const incomingCurrency = value?.currency
+
+  useEffect(() => {
+    if (incomingAmount === undefined && incomingCurrency === undefined) return
+    setMoney((previous) => {
+      const amount = incomingAmount ?? null
+      const currency = incomingCurrency ?? previous.currency
+      if (previous.amount === amount && previous.currency === currency) return previous
+      return { amount, currency }
+    })
+  }, [incomingAmount, incomingCurrency])
+
+  useEffect(() => {
+    setMoney((previous) =>
+      previous.amount === result.value ? previous : { ...previous, amount: result.value }
+    )
+  }, [result.value])
+
+  const convertAmount = useCallback(
+    (amount: NumericValue<T> | null, from: string, to: string): NumericValue<T> | null => {
+      if (amount == null) return null
+
+      const scaleOf = (currency: string) =>
+        resolveFractionDigits({
+          currency,
+          fractionDigits,
+          minimumFractionDigits,
+          maximumFractionDigits,
+        }).maxFractionDigits
+      const fromScale = scaleOf(from)
+      const toScale = scaleOf(to)
+      const codec = resolveValueCodec(valueType)
+
+      const decimal = decimalStringCodec.fromDigits(codec.toDigits(amount, fromScale), fromScale)
+      const converted = clampDigits(decimalStringCodec.toDigits(decimal, toScale), {
+        allowNegative,
+        minimum: minimumValue == null ? undefined : codec.toDigits(minimumValue, toScale),
+        maximum: maximumValue == null ? undefined : codec.toDigits(maximumValue, toScale),
+      })
+
+      return converted.digits ? codec.fromDigits(converted, toScale) : null
+    },
+    [
+      valueType,
+      fractionDigits,
+      minimumFractionDigits,
+      maximumFractionDigits,
+      minimumValue,
+      maximumValue,
+      allowNegative,
+    ]
+  )
+
+  const setCurrency = useCallback(
+    (currency: string) => {
+      setMoney((previous) =>
+        previous.currency === currency
+          ? previous
+          : { currency, amount: convertAmount(previous.amount, previous.currency, currency) }
+      )
+    },
+    [convertAmount]
+  )
+
+  return {
+    ...result,
+    money,
+    currency: money.currency,
+    currencies,
+    setCurrency,
+  }
+}
@@ -0,0 +1,33 @@
+import { useCallback } from "react"
+import { NumberValueFormatter } from "../core/currency"
+import { NumberFormatterMode, NumberInputParsingOptions, formatNumber } from "../core/number"
+import { majorUnitCodec } from "../core/numericValue"
+import { ValidationMessages } from "../core/validation"
+import { UseNumericInputResult, useNumericInput } from "./useNumericInput"
+
+export type UseNumberInputOptions = NumberInputParsingOptions & {
+  value?: number | null
+  mask?: NumberFormatterMode
+  validate?: (value: number | null) => string | null
+  messages?: ValidationMessages
+}
+
+export type UseNumberInputResult = UseNumericInputResult
+
+export function useNumberInput(options: UseNumberInputOptions): UseNumberInputResult {
+  const { locale, unit, unitDisplay, useGrouping, mask = "number", ...numericOptions } = options
+
+  const formatValue: NumberValueFormatter = useCallback(
+    (value, fractionDigits) =>
+      formatNumber(value, { locale, unit, unitDisplay, useGrouping, ...fractionDigits }),
+    [locale, unit, unitDisplay, useGrouping]
+  )
+
+  return useNumericInput({
+    ...numericOptions,
+    locale,
+    codec: majorUnitCodec,
+    formatValue,
+    masked: mask === "number",
+  })
+}
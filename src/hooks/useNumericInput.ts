@@ -0,0 +1,764 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { FormatOn } from "../core/Formatter.types"
+import { FormatEngine } from "../core/builtinFormat"
+import {
+  CurrencyEntryMode,
+  CurrencySignOptions,
+  NumberCommonOptions,
+  NumberValueFormatter,
+  SignedDigits,
+  applyMaxDigits,
+  applySignDisplay,
+  countMinusSigns,
+  digitsToDecimalString,
+  formatAffixes,
+  removeAffixes,
+  stripToDigits,
+  formatSignedDigits,
+  insertDecimalSeparator,
+  resolveFractionDigits,
+  getDecimalSeparator,
+} from "../core/currency"
+import {
+  DigitBounds,
+  NumericValueCodec,
+  clampDigits,
+  compareSignedDigits,
+  decimalStringCodec,
+} from "../core/numericValue"
+import { parseLocalizedCurrency } from "../core/parseLocalizedCurrency"
+import { AsyncValidationOptions, useAsyncValidation } from "../core/useAsyncValidation"
+import {
+  ValidationError,
+  ValidationMessages,
+  ValidationResult,
+  describeValidationError,
+  isSameValidationResult,
+  toValidationResult,
+} from "../core/validation"
+import {
+  TextSelection,
+  caretAfterEdit,
+  collapsedSelection,
+  isDigit,
+  mapCaret,
+  skipLiteralDeletion,
+  useTextSelection,
+} from "../core/selection"
+
+export type UseNumericInputOptions<TValue> = NumberCommonOptions &
+  CurrencySignOptions &
+  AsyncValidationOptions<TValue> & {
+    currency?: string
+    engine?: FormatEngine
+    value?: TValue | null
+    minimumValue?: TValue
+    maximumValue?: TValue
+    allowNegative?: boolean
+    maxDigits?: number
+    codec: NumericValueCodec<TValue>
+    formatValue: NumberValueFormatter
+    masked?: boolean
+    entryMode?: CurrencyEntryMode
+    validate?: (value: TValue | null) => string | null
+    messages?: ValidationMessages
+    formatOn?: FormatOn
+    onCommit?: (value: TValue | null) => void
+  }
+
+export type UseNumericInputResult<TValue = number> = {
+  value: TValue | null
+  text: string
+  rawDigits: string
+  error: string | null
+  errors: ValidationError[]
+  validating: boolean
+  selection: TextSelection
+  handleChangeText: (text: string) => void
+  handleSelectionChange: (selection: TextSelection) => void
+  handleFocus: () => void
+  commit: () => void
+  setValue: (value: TValue | null) => void
+}
+
+type NumericDisplay = {
+  text: string
+  rawDigits: string
+}
+
+type NumericDisplayState = {
+  text: string
+  isNegative: boolean
+}
+
+export function useNumericInput<TValue>(
+  options: UseNumericInputOptions<TValue>
+): UseNumericInputResult<TValue> {
+  const {
+    value: valueProp = null,
+    codec,
+    formatValue,
+    masked = true,
+    entryMode = "natural",
+    currency,
+    engine,
+    currencySign,
+    signDisplay,
+    negativeTemplate,
+    locale,
+    fractionDigits,
+    minimumFractionDigits,
+    maximumFractionDigits,
+    minimumValue,
+    maximumValue,
+    allowNegative = false,
+    maxDigits,
+    validate,
+    messages,
+    validateAsync,
+    validateDebounce,
+    formatOn = "change",
+    onCommit,
+  } = options
+
+  const { maxFractionDigits } = useMemo(
+    () =>
+      resolveFractionDigits({
+        currency,
+        locale,
+        fractionDigits,
+        minimumFractionDigits,
+        maximumFractionDigits,
+      }),
+    [currency, locale, fractionDigits, minimumFractionDigits, maximumFractionDigits]
+  )
+
+  const displayOptions = useMemo(
+    () => ({
+      currency,
+      engine,
+      locale,
+      fractionDigits,
+      minimumFractionDigits: entryMode === "cashRegister" ? maxFractionDigits : minimumFractionDigits,
+      maximumFractionDigits,
+      currencySign,
+      signDisplay,
+      negativeTemplate,
+    }),
+    [
+      currency,
+      engine,
+      locale,
+      fractionDigits,
+      entryMode,
+      maxFractionDigits,
+      minimumFractionDigits,
+      maximumFractionDigits,
+      currencySign,
+      signDisplay,
+      negativeTemplate,
+    ]
+  )
+
+  const bounds: DigitBounds = useMemo(
+    () => ({
+      allowNegative,
+      minimum: minimumValue == null ? undefined : codec.toDigits(minimumValue, maxFractionDigits),
+      maximum: maximumValue == null ? undefined : codec.toDigits(maximumValue, maxFractionDigits),
+    }),
+    [allowNegative, minimumValue, maximumValue, codec, maxFractionDigits]
+  )
+
+  const affixes = useMemo(() => (masked ? formatAffixes(formatValue) : []), [masked, formatValue])
+
+  const toValue = useCallback(
+    (amount: SignedDigits | null) => (amount ? codec.fromDigits(amount, maxFractionDigits) : null),
+    [codec, maxFractionDigits]
+  )
+
+  // Read through refs so an inline `validate` or `messages` does not re-run the scale effect
+  // below (and reset the caret) on every parent render. A change still re-validates, below.
+  const validateRef = useRef(validate)
+  validateRef.current = validate
+  const messagesRef = useRef(messages)
+  messagesRef.current = messages
+
+  const errorFor = useCallback(
+    (amount: SignedDigits | null, hitMaxDigits: boolean) =>
+      buildError({
+        value: toValue(amount),
+        amount,
+        maxDigits,
+        hitMaxDigits,
+        minimumValue,
+        maximumValue,
+        bounds,
+        validate: validateRef.current,
+        messages: messagesRef.current,
+      }),
+    [toValue, maxDigits, minimumValue, maximumValue, bounds]
+  )
+
+  const formatAmount = useCallback(
+    (amount: SignedDigits | null): NumericDisplay => {
+      const formatted = formatSignedDigits(
+        amount ?? { digits: "", isNegative: false },
+        displayOptions,
+        masked ? formatValue : null
+      )
+      return { text: formatted.text, rawDigits: formatted.rawValue }
+    },
+    [displayOptions, masked, formatValue]
+  )
+
+  const [initialState] = useState(() => {
+    const normalised = normaliseValue(valueProp, codec, bounds, maxFractionDigits, maxDigits)
+    return {
+      ...normalised,
+      display: formatAmount(normalised.amount),
+    }
+  })
+
+  const [value, setValueState] = useState<TValue | null>(() => toValue(initialState.amount))
+  const [rawDigits, setRawDigits] = useState<string>(initialState.display.rawDigits)
+  const [text, setText] = useState<string>(initialState.display.text)
+  const [validation, setValidationState] = useState<ValidationResult>(() =>
+    errorFor(initialState.amount, initialState.hitMaxDigits)
+  )
+  const setValidation = useCallback((next: ValidationResult) => {
+    setValidationState((previous) => (isSameValidationResult(previous, next) ? previous : next))
+  }, [])
+
+  const { selection, selectionRef, setSelection } = useTextSelection(initialState.display.text)
+
+  const amountRef = useRef<SignedDigits | null>(initialState.amount)
+  const textRef = useRef(text)
+  const scaleRef = useRef(maxFractionDigits)
+  const hitMaxDigitsRef = useRef(initialState.hitMaxDigits)
+  const valuePropRef = useRef(valueProp)
+  // `editingRef` is set while a blur-mode draft is shown; `dirtyRef` while edits await onCommit.
+  const editingRef = useRef(false)
+  const dirtyRef = useRef(false)
+  const onCommitRef = useRef(onCommit)
+  onCommitRef.current = onCommit
+
+  const toDraft = useCallback(
+    (amount: SignedDigits | null) => {
+      if (!amount?.digits) return ""
+      const decimal = digitsToDecimalString(amount.digits, maxFractionDigits)
+      const trimmed = decimal.includes(".") ? decimal.replace(/\.?0+$/, "") : decimal
+      const separator = getDecimalSeparator(locale, engine)
+      return `${amount.isNegative ? "-" : ""}${trimmed.replace(".", separator)}`
+    },
+    [maxFractionDigits, locale, engine]
+  )
+
+  const applyState = useCallback(
+    (amount: SignedDigits | null, hitMaxDigits: boolean, display?: NumericDisplay) => {
+      const next = display ?? formatAmount(amount)
+      const nextText = editingRef.current ? toDraft(amount) : next.text
+      const nextValue = toValue(amount)
+      amountRef.current = amount
+      scaleRef.current = maxFractionDigits
+      textRef.current = nextText
+      hitMaxDigitsRef.current = hitMaxDigits
+      setValueState(nextValue)
+      setRawDigits(next.rawDigits)
+      setText(nextText)
+      setValidation(errorFor(amount, hitMaxDigits))
+    },
+    [formatAmount, toDraft, toValue, errorFor, setValidation, maxFractionDigits]
+  )
+
+  const setValue = useCallback(
+    (next: TValue | null) => {
+      const normalised = normaliseValue(next, codec, bounds, maxFractionDigits, maxDigits)
+      applyState(normalised.amount, normalised.hitMaxDigits)
+      setSelection(collapsedSelection(textRef.current.length))
+    },
+    [applyState, setSelection, codec, bounds, maxFractionDigits, maxDigits]
+  )
+
+  // The current amount is carried over in digit space, so when the fraction digits change
+  // (USD to JPY) 12.34 is rounded to 12 instead of 1234 cents becoming 1234 yen.
+  useEffect(() => {
+    if (editingRef.current) return
+
+    const amount = amountRef.current
+    const decimal = amount ? decimalStringCodec.fromDigits(amount, scaleRef.current) : null
+    const normalised = normaliseValue(
+      decimal,
+      decimalStringCodec,
+      bounds,
+      maxFractionDigits,
+      maxDigits
+    )
+    const previousText = textRef.current
+    applyState(normalised.amount, normalised.hitMaxDigits)
+    if (textRef.current !== previousText) {
+      setSelection(collapsedSelection(textRef.current.length))
+    }
+  }, [applyState, setSelection, bounds, maxFractionDigits, maxDigits])
+
+  // A new validator or message map (e.g. after switching language) is applied to the current
+  // amount right away; text and selection are left alone.
+  useEffect(() => {
+    setValidation(errorFor(amountRef.current, hitMaxDigitsRef.current))
+  }, [validate, messages, errorFor, setValidation])
+
+  useEffect(() => {
+    if (valueProp === valuePropRef.current) return
+    valuePropRef.current = valueProp
+
+    const incoming = valueProp == null ? null : codec.toDigits(valueProp, maxFractionDigits)
+    if (isSameAmount(incoming, amountRef.current)) return
+    setValue(valueProp)
+  }, [valueProp, codec, maxFractionDigits, setValue])
+
+  const reportMaxDigits = useCallback(() => {
+    hitMaxDigitsRef.current = true
+    setValidation(errorFor(amountRef.current, true))
+  }, [errorFor, setValidation])
+
+  const applyText = useCallback(
+    (rawInputText: string, previous: NumericDisplayState) => {
+      if (!rawInputText) {
+        applyState(null, false)
+        return
+      }
+
+      const inputText = removeAffixes(rawInputText, affixes)
+      const signToggles =
+        countMinusSigns(inputText) - countMinusSigns(removeAffixes(previous.text, affixes))
+      const nextNegative = allowNegative ? previous.isNegative !== (signToggles % 2 !== 0) : false
+
+      if (entryMode === "cashRegister") {
+        const digits = stripToDigits(inputText).replace(/^0+/, "")
+
+        if (!digits) {
+          applyState(null, false)
+          return
+        }
+
+        if (maxDigits && digits.length - maxFractionDigits > maxDigits) {
+          reportMaxDigits()
+          return
+        }
+
+        applyState(clampDigits({ digits, isNegative: nextNegative }, bounds), false)
+        return
+      }
+
+      const decimalSeparator = getDecimalSeparator(locale, engine)
+      const escapedSeparator = decimalSeparator.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      const allowFraction = maxFractionDigits > 0
+
+      if (!masked) {
+        const cleaned = inputText.replace(new RegExp(`[^0-9${escapedSeparator}-]`, "g"), "")
+        const unsigned = cleaned.replace(/-/g, "")
+        const hasSeparator = allowFraction && cleaned.includes(decimalSeparator)
+        const parts = unsigned.split(decimalSeparator)
+        const intPartRaw = parts[0] ?? ""
+        const fracPartRaw = allowFraction ? parts.slice(1).join("").slice(0, maxFractionDigits) : ""
+
+        if (maxDigits && intPartRaw.length > maxDigits) {
+          reportMaxDigits()
+          return
+        }
+
+        const digitsOnly = `${intPartRaw}${fracPartRaw}`.replace(/\D/g, "")
+
+        if (!digitsOnly) {
+          applyState(null, false)
+          return
+        }
+
+        const normalizedInt = intPartRaw.replace(/^0+(?=\d)/, "") || "0"
+        const amount = clampDigits(
+          scaleDigits(normalizedInt, fracPartRaw, maxFractionDigits, nextNegative),
+          bounds
+        )
+
+        const textValue = applySignDisplay(
+          `${normalizedInt}${hasSeparator ? decimalSeparator : ""}${fracPartRaw}`,
+          nextNegative,
+          !/[1-9]/.test(digitsOnly),
+          displayOptions
+        )
+
+        applyState(amount, false, { text: textValue, rawDigits: digitsOnly })
+        return
+      }
+
+      // formatted mask: natural left-to-right typing with optional decimal separator
+      const cleaned = inputText.replace(
+        new RegExp(`[^0-9${allowFraction ? escapedSeparator : ""}-]`, "g"),
+        ""
+      )
+      const unsigned = cleaned.replace(/-/g, "")
+      const parts = allowFraction ? unsigned.split(decimalSeparator) : [unsigned]
+      const intPartRaw = parts[0] ?? ""
+      const fracPartRaw = allowFraction ? parts.slice(1).join("") : ""
+
+      if (maxDigits && intPartRaw.length > maxDigits) {
+        reportMaxDigits()
+        return
+      }
+
+      const fractionLimited = allowFraction ? fracPartRaw.slice(0, maxFractionDigits) : ""
+      const digitsOnly = `${intPartRaw}${fractionLimited}`.replace(/\D/g, "")
+
+      if (!digitsOnly) {
+        if (allowFraction && cleaned === decimalSeparator) {
+          const base = formatValue(nextNegative ? -0 : 0, {
+            minimumFractionDigits: 0,
+            maximumFractionDigits: maxFractionDigits,
+          })
+          const textValue = insertDecimalSeparator(base, decimalSeparator)
+          applyState({ digits: "0", isNegative: nextNegative }, false, {
+            text: textValue,
+            rawDigits: "0",
+          })
+          return
+        }
+        applyState(null, false)
+        return
+      }
+
+      const normalizedInt = intPartRaw.replace(/^0+(?=\d)/, "") || "0"
+      const amount = clampDigits(
+        scaleDigits(normalizedInt, fractionLimited, maxFractionDigits, nextNegative),
+        bounds
+      )
+      const decimal = `${amount.isNegative ? "-" : ""}${digitsToDecimalString(
+        amount.digits,
+        maxFractionDigits
+      )}`
+
+      const formattedText = (() => {
+        if (!allowFraction) {
+          return formatValue(decimal, {
+            minimumFractionDigits: 0,
+            maximumFractionDigits: 0,
+          })
+        }
+
+        const base = formatValue(decimal, {
+          minimumFractionDigits: fractionLimited.length,
+          maximumFractionDigits: maxFractionDigits,
+        })
+
+        if (cleaned.endsWith(decimalSeparator)) {
+          return insertDecimalSeparator(base, decimalSeparator)
+        }
+
+        return base
+      })()
+
+      applyState(amount, false, { text: formattedText, rawDigits: digitsOnly })
+    },
+    [
+      allowNegative,
+      maxDigits,
+      applyState,
+      reportMaxDigits,
+      bounds,
+      maxFractionDigits,
+      masked,
+      entryMode,
+      locale,
+      engine,
+      formatValue,
+      displayOptions,
+      affixes,
+    ]
+  )
+
+  const applyPaste = useCallback(
+    (inputText: string) => {
+      const pasted = parseLocalizedCurrency(inputText, { locale, currency })
+      if (pasted.error || pasted.decimal == null) return false
+
+      if (entryMode === "cashRegister") {
+        const normalised = normaliseValue(
+          pasted.decimal,
+          decimalStringCodec,
+          bounds,
+          maxFractionDigits,
+          maxDigits
+        )
+        applyState(normalised.amount, normalised.hitMaxDigits)
+        return true
+      }
+
+      applyText(pasted.decimal.replace(".", getDecimalSeparator(locale, engine)), {
+        text: "",
+        isNegative: false,
+      })
+      return true
+    },
+    [
+      locale,
+      engine,
+      currency,
+      entryMode,
+      bounds,
+      maxFractionDigits,
+      maxDigits,
+      applyState,
+      applyText,
+    ]
+  )
+
+  const editDraft = useCallback(
+    (inputText: string) => {
+      const decimalSeparator = getDecimalSeparator(locale, engine)
+      const draft = cleanDraft(inputText, decimalSeparator, allowNegative, maxFractionDigits)
+
+      if (maxDigits && draft.integer.length > maxDigits) {
+        reportMaxDigits()
+        return
+      }
+
+      const caret = caretAfterEdit(textRef.current, selectionRef.current, inputText)
+      const isDraftChar = (char: string) =>
+        isDigit(char) || char === decimalSeparator || char === "-"
+
+      editingRef.current = true
+      textRef.current = draft.text
+      setText(draft.text)
+      setSelection(collapsedSelection(mapCaret(inputText, caret, draft.text, isDraftChar)))
+    },
+    [
+      locale,
+      engine,
+      allowNegative,
+      maxFractionDigits,
+      maxDigits,
+      reportMaxDigits,
+      selectionRef,
+      setSelection,
+    ]
+  )
+
+  const handleChangeText = useCallback(
+    (inputText: string) => {
+      dirtyRef.current = true
+      if (formatOn === "blur") {
+        editDraft(inputText)
+        return
+      }
+
+      const previousText = textRef.current
+      const previous = { text: previousText, isNegative: amountRef.current?.isNegative ?? false }
+      const { start, end } = selectionRef.current
+      const inserted = inputText.slice(start, end + inputText.length - previousText.length)
+
+      if (isPaste(inserted, getDecimalSeparator(locale, engine)) && applyPaste(inputText)) {
+        setSelection(collapsedSelection(textRef.current.length))
+        return
+      }
+
+      let source = inputText
+      let caret = caretAfterEdit(previousText, selectionRef.current, inputText)
+
+      applyText(inputText, previous)
+
+      const retry =
+        textRef.current === previousText
+          ? skipLiteralDeletion(previousText, inputText, caret, isDigit)
+          : null
+      if (retry) {
+        applyText(retry.text, previous)
+        source = retry.text
+        caret = retry.caret
+      }
+
+      setSelection(collapsedSelection(mapCaret(source, caret, textRef.current, isDigit)))
+    },
+    [formatOn, editDraft, applyText, applyPaste, locale, engine, selectionRef, setSelection]
+  )
+
+  const handleFocus = useCallback(() => {
+    if (formatOn !== "blur") return
+
+    editingRef.current = true
+    const draft = toDraft(amountRef.current)
+    textRef.current = draft
+    setText(draft)
+    setSelection(collapsedSelection(draft.length))
+  }, [formatOn, toDraft, setSelection])
+
+  // Call from onBlur and onSubmitEditing. A blur-mode draft is parsed, clamped and formatted
+  // here, and onCommit fires if anything was typed since the last commit.
+  const commit = useCallback(() => {
+    if (editingRef.current) {
+      editingRef.current = false
+      const draft = cleanDraft(
+        textRef.current,
+        getDecimalSeparator(locale, engine),
+        allowNegative,
+        maxFractionDigits
+      )
+      const amount =
+        draft.integer || draft.fraction
+          ? clampDigits(
+              scaleDigits(
+                draft.integer.replace(/^0+(?=\d)/, "") || "0",
+                draft.fraction,
+                maxFractionDigits,
+                draft.isNegative
+              ),
+              bounds
+            )
+          : null
+      applyState(amount, false)
+      setSelection(collapsedSelection(textRef.current.length))
+    }
+
+    if (!dirtyRef.current) return
+    dirtyRef.current = false
+    onCommitRef.current?.(toValue(amountRef.current))
+  }, [locale, engine, allowNegative, maxFractionDigits, bounds, applyState, setSelection, toValue])
+
+  const pending = useAsyncValidation(value, { validateAsync, validateDebounce })
+  const asyncError = pending.error
+  const result = useMemo(() => {
+    if (!asyncError) return validation
+    const entry = describeValidationError("custom", { message: asyncError }, messages)
+    return { error: validation.error ?? entry.message, errors: [...validation.errors, entry] }
+  }, [validation, asyncError, messages])
+
+  return {
+    value,
+    text,
+    rawDigits,
+    error: result.error,
+    errors: result.errors,
+    validating: pending.validating,
+    selection,
+    handleChangeText,
+    handleSelectionChange: setSelection,
+    handleFocus,
+    commit,
+    setValue,
+  }
+}
+
+// Typed characters and single-key edits go through the regular path; anything
+// longer with separators or symbols is read as a localized amount.
+function isPaste(inserted: string, decimalSeparator: string) {
+  return (
+    inserted.length > 1 &&
+    Array.from(inserted).some((char) => !isDigit(char) && char !== decimalSeparator && char !== "-")
+  )
+}
+
+// Keeps digits, the first decimal separator and a minus sign, so a focused blur-mode field
+// holds something like "-1234.5" whatever was typed or pasted.
+function cleanDraft(
+  text: string,
+  decimalSeparator: string,
+  allowNegative: boolean,
+  fractionDigits: number
+) {
+  const isNegative = allowNegative && text.includes("-")
+  const [integerText = "", ...fractionParts] = text.split(decimalSeparator)
+  const integer = integerText.replace(/\D/g, "")
+  const hasSeparator = fractionDigits > 0 && fractionParts.length > 0
+  const fraction = hasSeparator
+    ? fractionParts.join("").replace(/\D/g, "").slice(0, fractionDigits)
+    : ""
+
+  return {
+    text: `${isNegative ? "-" : ""}${integer}${hasSeparator ? decimalSeparator : ""}${fraction}`,
+    integer,
+    fraction,
+    isNegative,
+  }
+}
+
+function isSameAmount(a: SignedDigits | null, b: SignedDigits | null) {
+  if (!a?.digits || !b?.digits) return !a?.digits && !b?.digits
+  return compareSignedDigits(a, b) === 0
+}
+
+function scaleDigits(
+  integerPart: string,
+  fractionPart: string,
+  fractionDigits: number,
+  isNegative: boolean
+): SignedDigits {
+  const digits = `${integerPart}${fractionPart.padEnd(fractionDigits, "0")}`
+  return { digits: digits.replace(/^0+(?=\d)/, ""), isNegative }
+}
+
+function normaliseValue<TValue>(
+  incoming: TValue | null,
+  codec: NumericValueCodec<TValue>,
+  bounds: DigitBounds,
+  fractionDigits: number,
+  maxDigits?: number
+): { amount: SignedDigits | null; hitMaxDigits: boolean } {
+  if (incoming == null) return { amount: null, hitMaxDigits: false }
+
+  const signed = codec.toDigits(incoming, fractionDigits)
+  if (!signed.digits) return { amount: null, hitMaxDigits: false }
+
+  const clamped = clampDigits(signed, bounds)
+  const limited = applyMaxDigits(clamped.digits, fractionDigits, maxDigits)
+
+  return {
+    amount: clampDigits({ digits: limited.digits, isNegative: clamped.isNegative }, bounds),
+    hitMaxDigits: limited.hitMaxDigits,
+  }
+}
+
+function buildError<TValue>(options: {
+  value: TValue | null
+  amount: SignedDigits | null
+  maxDigits?: number
+  hitMaxDigits: boolean
+  minimumValue?: TValue
+  maximumValue?: TValue
+  bounds: DigitBounds
+  validate?: (value: TValue | null) => string | null
+  messages?: ValidationMessages
+}): ValidationResult {
+  const {
+    value,
+    amount,
+    maxDigits,
+    hitMaxDigits,
+    minimumValue,
+    maximumValue,
+    bounds,
+    validate,
+    messages,
+  } = options
+
+  const errors: ValidationError[] = []
+
+  if (hitMaxDigits && maxDigits) {
+    errors.push(describeValidationError("maxDigits", { maxDigits }, messages))
+  }
+
+  if (!bounds.allowNegative && amount?.isNegative) {
+    errors.push(describeValidationError("negative", {}, messages))
+  }
+
+  if (bounds.minimum && amount && compareSignedDigits(amount, bounds.minimum) < 0) {
+    errors.push(describeValidationError("min", { min: minimumValue }, messages))
+  }
+
+  if (bounds.maximum && amount && compareSignedDigits(amount, bounds.maximum) > 0) {
+    errors.push(describeValidationError("max", { max: maximumValue }, messages))
+  }
+
+  const custom = validate?.(value)
+  if (custom) {
+    errors.push(describeValidationError("custom", { message: custom }, messages))
+  }
+
+  return toValidationResult(errors)
+}
@@ -0,0 +1,82 @@
+import { useCallback, useMemo } from "react"
+import { NumberValueFormatter, resolveFractionDigits } from "../core/currency"
+import {
+  PercentFormatterMode,
+  PercentParsingOptions,
+  formatPercentPoints,
+  fromPercentPoints,
+  toPercentPoints,
+} from "../core/percent"
+import { majorUnitCodec } from "../core/numericValue"
+import { ValidationMessages } from "../core/validation"
+import { UseNumericInputResult, useNumericInput } from "./useNumericInput"
+
+export type UsePercentInputOptions = PercentParsingOptions & {
+  value?: number | null
+  mask?: PercentFormatterMode
+  validate?: (value: number | null) => string | null
+  messages?: ValidationMessages
+}
+
+export type UsePercentInputResult = UseNumericInputResult
+
+export function usePercentInput(options: UsePercentInputOptions): UsePercentInputResult {
+  const {
+    value = null,
+    valueScale = "ratio",
+    locale,
+    mask = "percent",
+    minimumValue,
+    maximumValue,
+    validate,
+    ...numericOptions
+  } = options
+
+  const { maxFractionDigits } = resolveFractionDigits(options)
+
+  const toPoints = useCallback(
+    (next: number | null | undefined) =>
+      typeof next === "number" ? toPercentPoints(next, valueScale) : next,
+    [valueScale]
+  )
+
+  const fromPoints = useCallback(
+    (points: number | null) =>
+      points == null ? null : fromPercentPoints(points, valueScale, maxFractionDigits),
+    [valueScale, maxFractionDigits]
+  )
+
+  const formatValue: NumberValueFormatter = useCallback(
+    (points, fractionDigits) => formatPercentPoints(points, { locale, ...fractionDigits }),
+    [locale]
+  )
+
+  const validatePoints = useMemo(
+    () => (validate ? (points: number | null) => validate(fromPoints(points)) : undefined),
+    [validate, fromPoints]
+  )
+
+  const result = useNumericInput({
+    ...numericOptions,
+    value: toPoints(value),
+    locale,
+    minimumValue: toPoints(minimumValue) ?? undefined,
+    maximumValue: toPoints(maximumValue) ?? undefined,
+    validate: validatePoints,
+    codec: majorUnitCodec,
+    formatValue,
+    masked: mask === "percent",
+  })
+
+  const { setValue: setPoints } = result
+  const setValue = useCallback((next: number | null) => setPoints(toPoints(next) ?? null), [
+    setPoints,
+    toPoints,
+  ])
+
+  return {
+    ...result,
+    value: fromPoints(result.value),
+    setValue,
+  }
+}
@@ -1,10 +1,44 @@
 export * from "./core/Formatter.types"
 export * from "./core/useMaskedInput"
+export * from "./core/useAsyncValidation"
+export * from "./core/selection"
 export * from "./core/currency"
+export * from "./core/currencyRegistry"
+export * from "./core/builtinFormat"
+export * from "./core/locales"
+export * from "./core/numericValue"
+export * from "./core/decimalFormat"
+export * from "./core/formatterCache"
+export * from "./core/parseLocalizedCurrency"
+export * from "./core/exchangeRates"
+export * from "./core/percent"
+export * from "./core/number"
+export * from "./core/validation"
 
 export * from "./formatters/currency/createCurrencyFormatter"
+export * from "./formatters/percent/createPercentFormatter"
+export * from "./formatters/number/createNumberFormatter"
+export * from "./formatters/pattern/createPatternFormatter"
+export * from "./formatters/date/createDateFormatter"
+export * from "./formatters/card/cardBrands"
+export * from "./formatters/card/createCardNumberFormatter"
+export * from "./formatters/card/createCardExpiryFormatter"
+export * from "./formatters/card/createCardCvcFormatter"
+export * from "./formatters/iban/createIbanFormatter"
+export * from "./formatters/iban/ibanLengths"
+export * from "./formatters/phone/createPhoneFormatter"
+export * from "./formatters/phone/phoneCountries"
 
 export * from "./components/MaskedInput"
 export * from "./components/CurrencyInput"
 export * from "./components/CurrencyText"
+export * from "./components/MoneyInput"
+export * from "./components/PercentInput"
+export * from "./components/PercentText"
+export * from "./components/NumberInput"
+export * from "./components/NumberText"
 export * from "./hooks/useCurrencyInput"
+export * from "./hooks/useMoneyInput"
+export * from "./hooks/useConvertedAmount"
+export * from "./hooks/usePercentInput"
+export * from "./hooks/useNumberInput"